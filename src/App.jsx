@@ -1,196 +1,70 @@
-import { Canvas, useFrame } from '@react-three/fiber'
+import { Canvas } from '@react-three/fiber'
 import { OrbitControls, useTexture } from '@react-three/drei'
-import { useRef, useMemo, useEffect, useState } from 'react'
-import * as THREE from 'three'
+import { useMemo, useRef, useState } from 'react'
 import './App.css'
 import VideoAsciiDemo from './asciiPlayer/VideoAsciiDemo'
+import { loadHeightGrid } from './terrainMap/heightMapLoaders'
+import { loadPointCloud } from './terrainMap/pointCloudLoader'
+import PointCloud from './terrainMap/PointCloud'
+import TerrainMap from './terrainMap/TerrainMap'
+import HeightLegend from './terrainMap/HeightLegend'
+import SelectionOverlay from './terrainMap/SelectionOverlay'
+import { COLOR_RAMPS, parseBreaks, parseColorStops } from './terrainMap/heightColors'
 
-// 生成模擬的高度圖資料（實際使用時可以從圖片或API載入）
-function generateHeightMapData(width, height, isCircular = false, sampling = 1) {
-  const data = []
-  const centerX = width / 2
-  const centerY = height / 2
-  const radius = Math.min(width, height) / 2
-  
-  for (let y = 0; y < height; y += sampling) {
-    for (let x = 0; x < width; x += sampling) {
-      // 如果是圓形模式，檢查點是否在圓內
-      if (isCircular) {
-        const dx = x - centerX
-        const dy = y - centerY
-        const distance = Math.sqrt(dx * dx + dy * dy)
-        if (distance > radius) continue // 跳過圓外的點
-      }
-      
-      // 使用多個正弦波模擬地形
-      const nx = x / width - 0.5
-      const ny = y / height - 0.5
-      const height1 = Math.sin(nx * Math.PI * 4) * Math.cos(ny * Math.PI * 4) * 0.3
-      const height2 = Math.sin(nx * Math.PI * 8 + ny * Math.PI * 8) * 0.15
-      const height3 = Math.sin((nx + ny) * Math.PI * 12) * 0.1
-      const heightValue = (height1 + height2 + height3 + 0.5) * 10
-      data.push({ x, y, height: heightValue })
-    }
-  }
-  return data
-}
+// 模擬地形的大小（格數）；載入的高度格會縮放到同樣的世界尺寸
+const WORLD_SIZE = 60
 
-// 根據高度區間獲取顏色
-function getColorByHeightGroup(groupIndex) {
-  const colors = [
-    '#0066cc', // 0: 深藍
-    '#0088cc', // 1: 藍
-    '#00aacc', // 2: 青藍
-    '#00cccc', // 3: 青色
-    '#00ccaa', // 4: 青綠
-    '#00ff99', // 5: 綠青
-    '#66ff66', // 6: 淺綠
-    '#99ff66', // 7: 黃綠
-    '#ccff66', // 8: 淺黃綠
-    '#ffffcc', // 9: 淺黃
-  ]
-  return colors[groupIndex] || '#00d9ff'
+// 高度以資料原本的單位顯示
+function formatHeight(value) {
+  return value.toLocaleString(undefined, { maximumFractionDigits: 3 })
 }
 
-function TerrainMap({ mapWidth = 50, mapHeight = 50, spacing = 0.5, colorMode = 'opacity', isCircular = false, sampling = 1, boxSize = 0.6 }) {
-  const meshRefs = useRef([])
-  
-  // 生成地形資料
-  const heightMapData = useMemo(() => {
-    return generateHeightMapData(mapWidth, mapHeight, isCircular, sampling)
-  }, [mapWidth, mapHeight, isCircular, sampling])
-  
-  // 找出最大和最小高度
-  const { maxHeight, minHeight } = useMemo(() => {
-    const heights = heightMapData.map(d => d.height)
-    return {
-      maxHeight: Math.max(...heights),
-      minHeight: Math.min(...heights)
-    }
-  }, [heightMapData])
+function Scene({ grid, colorMode, isCircular, sampling, boxSize, exaggeration, nodata, colorStops, bandCount, continuous, breakMethod, customBreaks, onLegendChange, inspected, onInspect, selection, onSelectionStats, selectMode, pointCloud, pointColorMode, pointSize }) {
+  // 地圖大小來自載入的資料，間距讓長邊維持 WORLD_SIZE
+  const mapWidth = grid ? grid.width : WORLD_SIZE
+  const mapHeight = grid ? grid.height : WORLD_SIZE
+  const spacing = WORLD_SIZE / Math.max(mapWidth, mapHeight)
   
-  // 將資料分成10個高度區間
-  const heightGroups = useMemo(() => {
-    const groups = Array.from({ length: 10 }, () => [])
-    const heightRange = maxHeight - minHeight
-    
-    heightMapData.forEach(point => {
-      const normalized = (point.height - minHeight) / heightRange
-      const groupIndex = Math.min(Math.floor(normalized * 10), 9)
-      groups[groupIndex].push(point)
-    })
-    
-    return groups
-  }, [heightMapData, maxHeight, minHeight])
-  
-  // 為每個區間創建幾何體
-  const geometries = useMemo(() => {
-    return Array.from({ length: 10 }, () => 
-      new THREE.BoxGeometry(spacing * boxSize, 1, spacing * boxSize)
-    )
-  }, [spacing, boxSize])
-  
-  // 設定每個區間的位置和縮放
-  useEffect(() => {
-    heightGroups.forEach((group, groupIndex) => {
-      const meshRef = meshRefs.current[groupIndex]
-      if (!meshRef || group.length === 0) return
-      
-      const tempObject = new THREE.Object3D()
-      
-      group.forEach((point, i) => {
-        const x = (point.x - mapWidth / 2) * spacing
-        const z = (point.y - mapHeight / 2) * spacing
-        const height = point.height
-        
-        tempObject.position.set(x, height / 2, z)
-        tempObject.scale.set(1, height, 1)
-        tempObject.updateMatrix()
-        
-        meshRef.setMatrixAt(i, tempObject.matrix)
-      })
-      
-      meshRef.instanceMatrix.needsUpdate = true
-    })
-  }, [heightMapData, mapWidth, mapHeight, spacing, heightGroups])
-  
-  // 輕微旋轉動畫
-  useFrame((state) => {
-    meshRefs.current.forEach(meshRef => {
-      if (meshRef) {
-        meshRef.rotation.y = Math.sin(state.clock.elapsedTime * 0.1) * 0.1
-      }
-    })
-  })
-  
-  return (
-    <>
-      {heightGroups.map((group, index) => {
-        if (group.length === 0) return null
-        
-        // 根據模式決定顏色和透明度
-        const isOpacityMode = colorMode === 'opacity'
-        const heightRatio = index / 9 // 0-1 的高度比例
-        
-        let color, opacity, emissiveColor
-        
-        if (isOpacityMode) {
-          // 透明度模式：統一水藍色，透明度變化（50%-80%）
-          color = '#39C5BB'
-          opacity = 0.5 + heightRatio * 0.45 // 低處50%，高處95%
-          emissiveColor = '#39C5BB'
-        } else {
-          // 漸層色模式：顏色漸變，亮度和透明度固定100%
-          color = getColorByHeightGroup(index)
-          opacity = 1.0 // 固定100%透明度（完全不透明）
-          emissiveColor = getColorByHeightGroup(index)
-        }
-        
-        return (
-          <instancedMesh
-            key={index}
-            ref={el => meshRefs.current[index] = el}
-            args={[geometries[index], null, group.length]}
-          >
-            <meshStandardMaterial 
-              color={color}
-              metalness={0.5} 
-              roughness={0.3}
-              transparent={true}
-              opacity={opacity}
-              emissive={emissiveColor}
-              emissiveIntensity={isOpacityMode ? 0.2 : 0.1 * (0.5 + heightRatio * 0.5)}
-              depthWrite={opacity > 0.8}
-            />
-          </instancedMesh>
-        )
-      })}
-    </>
-  )
-}
-
-function Scene({ colorMode, isCircular, sampling, boxSize }) {
   return (
     <>
       <ambientLight intensity={0.3} />
       <directionalLight position={[20, 30, 10]} intensity={0.8} />
       <directionalLight position={[-10, 20, -10]} intensity={0.4} />
       
+      {pointCloud ? (
+        <PointCloud cloud={pointCloud} colorMode={pointColorMode} pointSize={pointSize} worldSize={WORLD_SIZE} />
+      ) : (
       <TerrainMap 
-        key={`${isCircular ? 'circular' : 'square'}-${sampling}-${boxSize}`}
-        mapWidth={60} 
-        mapHeight={60} 
-        spacing={1.0} 
+        grid={grid}
+        mapWidth={mapWidth} 
+        mapHeight={mapHeight} 
+        spacing={spacing} 
         colorMode={colorMode} 
         isCircular={isCircular}
         sampling={sampling}
         boxSize={boxSize}
+        exaggeration={exaggeration}
+        nodata={nodata}
+        colorStops={colorStops}
+        bandCount={bandCount}
+        continuous={continuous}
+        breakMethod={breakMethod}
+        customBreaks={customBreaks}
+        onLegendChange={onLegendChange}
+        inspected={inspected}
+        onInspect={onInspect}
+        selection={selection}
+        onSelectionStats={onSelectionStats}
       />
+      )}
       
       {/* 網格輔助線 */}
       <gridHelper args={[50, 50, 0x333333, 0x111111]} position={[0, -1, 0]} />
       
+      {/* 區域選取期間停用視角控制，拖曳只用來圈選 */}
       <OrbitControls 
+        makeDefault
+        enabled={selectMode === 'none'}
         enableDamping 
         dampingFactor={0.05}
         minDistance={15}
@@ -207,6 +81,74 @@ function App() {
   const [sampling, setSampling] = useState(1)
   const [boxSize, setBoxSize] = useState(0.6)
   const [page, setPage] = useState('video') // 'map' or 'video'
+  const [heightGrid, setHeightGrid] = useState(null) // null = 模擬地形
+  const [exaggeration, setExaggeration] = useState(1)
+  const [nodata, setNodata] = useState('skip') // 'skip' or 'base'
+  const [loadingGrid, setLoadingGrid] = useState(false)
+  const [gridError, setGridError] = useState('')
+  const [rampName, setRampName] = useState('classic') // COLOR_RAMPS 的名稱或 'custom'
+  const [customStopsText, setCustomStopsText] = useState('#0000ff, #ffffff, #ff0000')
+  const [bandCount, setBandCount] = useState(10)
+  const [continuous, setContinuous] = useState(false)
+  const [breakMethod, setBreakMethod] = useState('equal') // 'equal' | 'quantile' | 'custom'
+  const [customBreaksText, setCustomBreaksText] = useState('')
+  const [legend, setLegend] = useState(null)
+  const [inspected, setInspected] = useState(null) // 釘選的方柱
+  const [selectMode, setSelectMode] = useState('none') // 'none' | 'box' | 'lasso'
+  const [selection, setSelection] = useState(null)
+  const [selectionStats, setSelectionStats] = useState(null)
+  
+  // 自訂色標無效時沿用經典色帶
+  const customStops = useMemo(() => parseColorStops(customStopsText), [customStopsText])
+  const colorStops = rampName === 'custom' ? customStops || COLOR_RAMPS.classic.stops : COLOR_RAMPS[rampName].stops
+  const customBreaks = useMemo(() => parseBreaks(customBreaksText), [customBreaksText])
+  
+  const [pointCloud, setPointCloud] = useState(null)
+  const [pointColorMode, setPointColorMode] = useState('rgb') // 'rgb' or 'height'
+  const [pointSize, setPointSize] = useState(0.3)
+  const [cloudProgress, setCloudProgress] = useState(null) // 解析中為 0~1
+  const [cloudError, setCloudError] = useState('')
+  const cloudAbortRef = useRef(null)
+  
+  const handlePointCloudFile = async (e) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    // 選了新檔案就中斷前一個還在解析的檔案
+    cloudAbortRef.current?.abort()
+    const controller = new AbortController()
+    cloudAbortRef.current = controller
+    setCloudProgress(0)
+    setCloudError('')
+    try {
+      const cloud = await loadPointCloud(file, { onProgress: setCloudProgress, signal: controller.signal })
+      setPointCloud(cloud)
+      setPointColorMode(cloud.colors ? 'rgb' : 'height')
+    } catch (err) {
+      if (controller.signal.aborted) return
+      setCloudError(err instanceof Error ? err.message : String(err))
+    } finally {
+      if (cloudAbortRef.current === controller) {
+        cloudAbortRef.current = null
+        setCloudProgress(null)
+      }
+    }
+  }
+  
+  const handleHeightFile = async (e) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setLoadingGrid(true)
+    setGridError('')
+    try {
+      setHeightGrid(await loadHeightGrid(file))
+    } catch (err) {
+      setGridError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setLoadingGrid(false)
+    }
+  }
   
   return (
     <div style={{ width: '100vw', height: '100vh', background: '#000' }}>
@@ -262,6 +204,60 @@ function App() {
               >
                 {colorMode === 'opacity' ? '切換至漸層色' : '切換至透明度'}
               </button>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                <label style={{ fontSize: '14px' }}>色帶:</label>
+                <select value={rampName} onChange={(e) => setRampName(e.target.value)} style={{ flex: 1 }}>
+                  {Object.entries(COLOR_RAMPS).map(([name, ramp]) => (
+                    <option key={name} value={name}>{ramp.label}</option>
+                  ))}
+                  <option value="custom">自訂</option>
+                </select>
+              </div>
+              {rampName === 'custom' && (
+                <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', fontSize: '14px' }}>
+                  <input
+                    type="text"
+                    value={customStopsText}
+                    onChange={(e) => setCustomStopsText(e.target.value)}
+                    placeholder="#0000ff, 0.5:#ffffff, #ff0000"
+                  />
+                  {!customStops && <div style={{ color: '#ff6b6b' }}>色標格式：#rrggbb 或 位置:#rrggbb，至少兩個</div>}
+                </div>
+              )}
+              <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                <label style={{ fontSize: '14px' }}>分級:</label>
+                <select value={breakMethod} onChange={(e) => setBreakMethod(e.target.value)} style={{ flex: 1 }}>
+                  <option value="equal">等距</option>
+                  <option value="quantile">分位數</option>
+                  <option value="custom">自訂邊界</option>
+                </select>
+              </div>
+              {breakMethod === 'custom' ? (
+                <input
+                  type="text"
+                  value={customBreaksText}
+                  onChange={(e) => setCustomBreaksText(e.target.value)}
+                  placeholder="邊界值，例如 100, 250, 500"
+                  style={{ fontSize: '14px' }}
+                />
+              ) : (
+                <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                  <label style={{ fontSize: '14px' }}>區間數:</label>
+                  <input
+                    type="range"
+                    min="1"
+                    max="20"
+                    value={bandCount}
+                    onChange={(e) => setBandCount(Number(e.target.value))}
+                    style={{ flex: 1 }}
+                  />
+                  <span style={{ fontSize: '14px', minWidth: '30px' }}>{bandCount}</span>
+                </div>
+              )}
+              <label style={{ fontSize: '14px', display: 'flex', alignItems: 'center', gap: '6px' }}>
+                <input type="checkbox" checked={continuous} onChange={(e) => setContinuous(e.target.checked)} />
+                連續配色
+              </label>
               <button
                 onClick={() => setIsCircular(!isCircular)}
                 style={{
@@ -302,23 +298,244 @@ function App() {
                 />
                 <span style={{ fontSize: '14px', minWidth: '30px' }}>{boxSize.toFixed(1)}</span>
               </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', fontSize: '14px' }}>
+                <label>
+                  高度圖（PNG/JPEG 灰階、.asc、x,y,height CSV）:
+                  <input
+                    type="file"
+                    accept=".png,.jpg,.jpeg,.webp,.asc,.csv,.txt,image/*"
+                    onChange={handleHeightFile}
+                    disabled={loadingGrid}
+                    style={{ display: 'block', marginTop: '4px' }}
+                  />
+                </label>
+                <div>
+                  {loadingGrid
+                    ? '載入中…'
+                    : heightGrid
+                      ? `${heightGrid.name}（${heightGrid.width} x ${heightGrid.height}）`
+                      : '目前為模擬地形'}
+                </div>
+                {gridError && <div style={{ color: '#ff6b6b' }}>{gridError}</div>}
+                {heightGrid && (
+                  <button
+                    onClick={() => setHeightGrid(null)}
+                    style={{
+                      padding: '6px 12px',
+                      background: '#00d9ff',
+                      border: 'none',
+                      borderRadius: '4px',
+                      color: '#000',
+                      cursor: 'pointer',
+                      fontWeight: 'bold'
+                    }}
+                  >
+                    改回模擬地形
+                  </button>
+                )}
+              </div>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                <label style={{ fontSize: '14px' }}>垂直誇張:</label>
+                <input
+                  type="range"
+                  min="0.1"
+                  max="5"
+                  step="0.1"
+                  value={exaggeration}
+                  onChange={(e) => setExaggeration(Number(e.target.value))}
+                  disabled={!heightGrid}
+                  style={{ flex: 1 }}
+                />
+                <span style={{ fontSize: '14px', minWidth: '30px' }}>{exaggeration.toFixed(1)}x</span>
+              </div>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                <label style={{ fontSize: '14px' }}>無資料:</label>
+                <select
+                  value={nodata}
+                  onChange={(e) => setNodata(e.target.value)}
+                  disabled={!heightGrid}
+                  style={{ flex: 1 }}
+                >
+                  <option value="skip">不顯示</option>
+                  <option value="base">以最低高度補上</option>
+                </select>
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', fontSize: '14px' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                  <label>區域選取:</label>
+                  <select value={selectMode} onChange={(e) => setSelectMode(e.target.value)} style={{ flex: 1 }}>
+                    <option value="none">關閉（可旋轉視角）</option>
+                    <option value="box">方框</option>
+                    <option value="lasso">套索</option>
+                  </select>
+                </div>
+                {selection && selectionStats && (
+                  <>
+                    {selectionStats.count > 0 ? (
+                      <div>
+                        <div>方柱數: {selectionStats.count.toLocaleString()}</div>
+                        <div>最低: {formatHeight(selectionStats.min)}</div>
+                        <div>最高: {formatHeight(selectionStats.max)}</div>
+                        <div>平均: {formatHeight(selectionStats.mean)}</div>
+                      </div>
+                    ) : (
+                      <div>範圍內沒有方柱</div>
+                    )}
+                    <button
+                      onClick={() => {
+                        setSelection(null)
+                        setSelectionStats(null)
+                      }}
+                      style={{
+                        padding: '6px 12px',
+                        background: '#00d9ff',
+                        border: 'none',
+                        borderRadius: '4px',
+                        color: '#000',
+                        cursor: 'pointer',
+                        fontWeight: 'bold'
+                      }}
+                    >
+                      清除選取
+                    </button>
+                  </>
+                )}
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '6px', fontSize: '14px' }}>
+                <label>
+                  點雲（PLY、XYZ/XYZRGB、LAS 1.2~1.4）:
+                  <input
+                    type="file"
+                    accept=".ply,.xyz,.xyzrgb,.pts,.txt,.las"
+                    onChange={handlePointCloudFile}
+                    style={{ display: 'block', marginTop: '4px' }}
+                  />
+                </label>
+                {cloudProgress !== null && <div>解析中 {Math.round(cloudProgress * 100)}%</div>}
+                {cloudError && <div style={{ color: '#ff6b6b' }}>{cloudError}</div>}
+                {pointCloud && (
+                  <>
+                    <div>{pointCloud.name}（{pointCloud.count.toLocaleString()} 點）</div>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                      <label>點雲顏色:</label>
+                      <select value={pointColorMode} onChange={(e) => setPointColorMode(e.target.value)} style={{ flex: 1 }}>
+                        <option value="rgb" disabled={!pointCloud.colors}>原始顏色</option>
+                        <option value="height">依高度</option>
+                      </select>
+                    </div>
+                    <div style={{ display: 'flex', alignItems: 'center', gap: '10px' }}>
+                      <label>點大小:</label>
+                      <input
+                        type="range"
+                        min="0.05"
+                        max="2"
+                        step="0.05"
+                        value={pointSize}
+                        onChange={(e) => setPointSize(Number(e.target.value))}
+                        style={{ flex: 1 }}
+                      />
+                      <span style={{ minWidth: '30px' }}>{pointSize.toFixed(2)}</span>
+                    </div>
+                    <button
+                      onClick={() => setPointCloud(null)}
+                      style={{
+                        padding: '6px 12px',
+                        background: '#00d9ff',
+                        border: 'none',
+                        borderRadius: '4px',
+                        color: '#000',
+                        cursor: 'pointer',
+                        fontWeight: 'bold'
+                      }}
+                    >
+                      改回地形
+                    </button>
+                  </>
+                )}
+              </div>
             </div>
           </>
         )}
       </div>
 
+      {page === 'map' && !pointCloud && legend && <HeightLegend legend={legend} />}
+
+      {page === 'map' && !pointCloud && inspected && (
+        <div
+          style={{
+            position: 'absolute',
+            top: 20,
+            right: 20,
+            zIndex: 1,
+            padding: '10px 12px',
+            background: 'rgba(0, 0, 0, 0.6)',
+            border: '1px solid #ff4081',
+            borderRadius: '4px',
+            color: '#fff',
+            fontFamily: 'monospace',
+            fontSize: '13px',
+          }}
+        >
+          <div style={{ marginBottom: '6px', fontWeight: 'bold' }}>方柱資訊</div>
+          <div>格子: ({inspected.gridX}, {inspected.gridY})</div>
+          {inspected.level > 0 && <div>代表 {2 ** inspected.level} x {2 ** inspected.level} 格（LOD {inspected.level}）</div>}
+          <div>世界座標: ({inspected.world.map(v => v.toFixed(2)).join(', ')})</div>
+          <div>高度: {formatHeight(inspected.value)}</div>
+          <button
+            onClick={() => setInspected(null)}
+            style={{
+              marginTop: '8px',
+              padding: '4px 10px',
+              background: '#ff4081',
+              border: 'none',
+              borderRadius: '4px',
+              color: '#000',
+              cursor: 'pointer',
+              fontWeight: 'bold'
+            }}
+          >
+            取消釘選
+          </button>
+        </div>
+      )}
+
       {page === 'map' ? (
         <Canvas 
           camera={{ position: [35, 30, 35], fov: 60 }}
           gl={{ antialias: true, alpha: true }}
         >
-          <Scene colorMode={colorMode} isCircular={isCircular} sampling={sampling} boxSize={boxSize} />
+          <Scene
+            grid={heightGrid}
+            colorMode={colorMode}
+            isCircular={isCircular}
+            sampling={sampling}
+            boxSize={boxSize}
+            exaggeration={exaggeration}
+            nodata={nodata}
+            colorStops={colorStops}
+            bandCount={bandCount}
+            continuous={continuous}
+            breakMethod={breakMethod}
+            customBreaks={customBreaks}
+            onLegendChange={setLegend}
+            inspected={inspected}
+            onInspect={setInspected}
+            selection={selection}
+            onSelectionStats={setSelectionStats}
+            selectMode={selectMode}
+            pointCloud={pointCloud}
+            pointColorMode={pointColorMode}
+            pointSize={pointSize}
+          />
         </Canvas>
       ) : (
         <div style={{ width: '100vw', height: '100vh' }}>
           <VideoAsciiDemo />
         </div>
       )}
+
+      {/* 選取層要排在 Canvas 之後：兩者在同一個疊放層級，後面的元素才會蓋在畫布上 */}
+      {page === 'map' && !pointCloud && selectMode !== 'none' && <SelectionOverlay mode={selectMode} onSelect={setSelection} />}
     </div>
   )
 }
@@ -0,0 +1,98 @@
+import { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { GlyphAtlasRenderer } from './glyphAtlas';
+import type { ColorRenderMode, RendererStats } from './glyphAtlas';
+import type { CompactFrame } from './compactFrame';
+
+export interface AsciiCanvasRendererProps {
+  /** 要顯示的幀（顏色取自 frame.colors） */
+  frame: CompactFrame;
+  fontSize?: number;
+  lineHeight?: number;
+  fontFamily?: string;
+  color?: string;
+  background?: string;
+  colorMode?: ColorRenderMode;
+  /** 預先放進圖集的字元（通常為目前的字元集） */
+  charset?: string;
+  /** 內容超出父元素時等比例縮小 */
+  fitToContainer?: boolean;
+  onStats?: (stats: RendererStats) => void;
+}
+
+// <canvas> 版的 ASCII 顯示：以字元圖集繪製，只重畫有變動的格子
+export default function AsciiCanvasRenderer({
+  frame,
+  fontSize = 8,
+  lineHeight = 8,
+  fontFamily = 'monospace',
+  color = '#39ff66',
+  background = '#000',
+  colorMode = 'mono',
+  charset = '',
+  fitToContainer = true,
+  onStats,
+}: AsciiCanvasRendererProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const wrapperRef = useRef<HTMLDivElement | null>(null);
+  const rendererRef = useRef<GlyphAtlasRenderer | null>(null);
+  const onStatsRef = useRef(onStats);
+  const [fitScale, setFitScale] = useState(1);
+
+  useEffect(() => {
+    onStatsRef.current = onStats;
+  }, [onStats]);
+
+  useEffect(() => {
+    return () => {
+      rendererRef.current?.destroy();
+      rendererRef.current = null;
+    };
+  }, []);
+
+  // 繪製在 layout 階段完成，避免閃爍
+  useLayoutEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    if (!rendererRef.current) rendererRef.current = new GlyphAtlasRenderer(canvas);
+    const renderer = rendererRef.current;
+    renderer.setStyle({ fontSize, lineHeight, fontFamily, color, background, colorMode }, charset);
+    const stats = renderer.draw(frame);
+    onStatsRef.current?.(stats);
+  }, [frame, fontSize, lineHeight, fontFamily, color, background, colorMode, charset]);
+
+  // 只有在內容寬或高超出容器時才縮放
+  useEffect(() => {
+    if (!fitToContainer) {
+      setFitScale(1);
+      return;
+    }
+    const updateFit = () => {
+      const container = wrapperRef.current?.parentElement;
+      const canvas = canvasRef.current;
+      if (!container || !canvas) return;
+      const cW = Math.max(0, container.clientWidth - 8);
+      const cH = Math.max(0, container.clientHeight - 8);
+      const pW = canvas.offsetWidth;
+      const pH = canvas.offsetHeight;
+      if (!pW || !pH || (pW <= cW && pH <= cH)) {
+        setFitScale(1);
+        return;
+      }
+      const s = Math.max(0.1, Math.min(1, Math.min(cW / pW, cH / pH)));
+      setFitScale(prev => (Math.abs(prev - s) > 0.01 ? s : prev));
+    };
+    const id = requestAnimationFrame(updateFit);
+    const onResize = () => requestAnimationFrame(updateFit);
+    window.addEventListener('resize', onResize);
+    return () => {
+      cancelAnimationFrame(id);
+      window.removeEventListener('resize', onResize);
+    };
+  }, [fitToContainer, frame.rows, frame.cols, fontSize, lineHeight]);
+
+  return (
+    <div ref={wrapperRef} style={{ transform: `scale(${fitScale})`, transformOrigin: 'left top' }}>
+      <canvas ref={canvasRef} style={{ display: 'block' }} />
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+import { guessPlaylistItemKind } from './playlist';
+import type { PlaylistItem } from './playlist';
+
+export interface ClipGalleryProps {
+  clips: PlaylistItem[];
+  /** 目前播放中的項目索引（-1 表示沒有） */
+  activeIndex?: number;
+  disabled?: boolean;
+  onSelect: (index: number) => void;
+}
+
+// 預覽縮圖從第 1 秒開始，避開片頭的黑畫面
+const THUMBNAIL_TIME = 1;
+
+// 影片縮圖：只載入 metadata 與第一個畫面，滑鼠移入時靜音預覽
+function ClipThumbnail({ src }: { src: string }) {
+  return (
+    <video
+      src={`${src}#t=${THUMBNAIL_TIME}`}
+      muted
+      playsInline
+      loop
+      preload="metadata"
+      onMouseEnter={(e) => { e.currentTarget.play().catch(() => {}); }}
+      onMouseLeave={(e) => { e.currentTarget.pause(); }}
+      style={{ width: '100%', aspectRatio: '16 / 9', objectFit: 'cover', background: '#111', display: 'block', borderRadius: 4 }}
+    />
+  );
+}
+
+// 示範影片清單
+export default function ClipGallery({ clips, activeIndex = -1, disabled = false, onSelect }: ClipGalleryProps) {
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(120px, 1fr))', gap: 8 }}>
+      {clips.map((clip, i) => (
+        <button
+          key={clip.src}
+          onClick={() => onSelect(i)}
+          disabled={disabled}
+          title={clip.title}
+          style={{
+            padding: 4,
+            background: i === activeIndex ? '#14532d' : '#0b0b0b',
+            border: `1px solid ${i === activeIndex ? '#39ff66' : '#2f8f66'}`,
+            borderRadius: 6,
+            color: '#39ff66',
+            cursor: disabled ? 'default' : 'pointer',
+            opacity: disabled ? 0.6 : 1,
+            textAlign: 'left',
+            fontFamily: 'monospace',
+          }}
+        >
+          {(clip.kind ?? guessPlaylistItemKind(clip.src)) === 'video'
+            ? <ClipThumbnail src={clip.src} />
+            : <img src={clip.src} alt="" style={{ width: '100%', aspectRatio: '16 / 9', objectFit: 'cover', display: 'block', borderRadius: 4 }} />}
+          <div style={{ marginTop: 4, fontSize: 12, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+            {clip.title ?? clip.src}
+          </div>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -1,352 +1,415 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useLayoutEffect, useMemo } from 'react';
+import { VideoAsciiPlayer, VideoAsciiPlayerError, isWorkerModeSupported } from './VideoAsciiPlayer';
+import type { RenderStats, VideoAsciiPlayerOptions } from './VideoAsciiPlayer';
+import { DEFAULT_TONE, toAsciiFrame } from './asciiConverter';
+import type { CellColors, CellSize, CompactFrame, LuminanceModel, RenderMode, ToneOptions } from './asciiConverter';
+import type { ColorPalette } from './ansiPalette';
+import type { DitherMode } from './dither';
+import { DEFAULT_BRAILLE_THRESHOLD, DEFAULT_HALF_BLOCK_THRESHOLD } from './subcellModes';
+import { DEFAULT_EDGE_BLEND, DEFAULT_EDGE_THRESHOLD } from './edgeGlyphs';
+import AsciiCanvasRenderer from './AsciiCanvasRenderer';
+import { FGBG_BACKGROUND_SCALE } from './glyphAtlas';
+import type { ColorRenderMode, RendererStats } from './glyphAtlas';
+import ClipGallery from './ClipGallery';
+import { BUNDLED_CLIPS } from './bundledClips';
+import { AsciiRecorder, toAsciicast, toFrameArchive, toFrameSequenceJson } from './asciiRecorder';
+import type { AsciiRecording } from './asciiRecorder';
+import { exportGif, exportPng, exportWebm, isWebmExportSupported } from './mediaExport';
+import type { ExportRange } from './mediaExport';
+import { sortCharsetByDensity } from './glyphDensity';
+import { CHARSET_PRESETS } from './charsetPresets';
 
-// VideoAsciiPlayer 類別（內嵌版本）
-interface VideoAsciiPlayerOptions {
-  chars?: string;
-  step?: number;
-  threshold?: number;
-}
-
-class VideoAsciiPlayer {
-  private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
-  private chars: string;
-  private step: number;
-  private threshold: number;
-  private currentVideo: HTMLVideoElement | null = null;
-  private data: string[][] = [];
-  private animationFrameId: number | null = null;
-  private onFrameCallback: ((frame: string[][]) => void) | null = null;
-  private invert: boolean = false;
-
-  constructor(options: VideoAsciiPlayerOptions = {}) {
-    this.chars = options.chars ?? '@%#*+=-:. ';
-    this.step = options.step ?? 2;
-    this.threshold = options.threshold ?? Math.floor(255 * ((this.chars.length - 1) / this.chars.length));
-    this.canvas = document.createElement('canvas');
-    const ctx = this.canvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) throw new Error('Cannot get 2D context');
-    this.ctx = ctx;
-  }
-
-  setStep(n: number) {
-    this.step = Math.max(1, Math.floor(n));
-  }
-
-  async loadVideo(src: string): Promise<HTMLVideoElement> {
-    return new Promise((resolve, reject) => {
-      const video = document.createElement('video');
-      video.muted = true;
-      video.loop = true;
-      video.playsInline = true;
-      if (!src.startsWith('data:') && !src.startsWith('blob:')) {
-        video.crossOrigin = 'anonymous';
-      }
-      video.onloadedmetadata = () => resolve(video);
-      video.onerror = () => reject(new Error('影片載入失敗'));
-      video.src = src;
-      video.load();
-    });
-  }
+// 最大 FPS 選項，0 為不限制
+const MAX_FPS_OPTIONS = [0, 15, 24, 30, 60];
 
-  setVideo(video: HTMLVideoElement) {
-    this.currentVideo = video;
-    this.canvas.width = video.videoWidth;
-    this.canvas.height = video.videoHeight;
-  }
-
-  async loadImage(src: string): Promise<HTMLImageElement> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      if (!src.startsWith('data:') && !src.startsWith('blob:')) img.crossOrigin = 'anonymous';
-      img.onload = () => resolve(img);
-      img.onerror = () => reject(new Error('圖片載入失敗'));
-      img.src = src;
-    });
-  }
-
-  setImage(img: HTMLImageElement) {
-    this.currentVideo = null;
-    this.canvas.width = img.width;
-    this.canvas.height = img.height;
-    this.ctx.drawImage(img, 0, 0, img.width, img.height);
-  }
-
-  processImage() {
-    this.computeAsciiFromCanvas();
-  }
-
-  setInvert(v: boolean) {
-    this.invert = !!v;
-  }
-
-  play(onFrame?: (frame: string[][]) => void) {
-    if (!this.currentVideo) throw new Error('No video loaded. Call setVideo() first.');
-    this.onFrameCallback = onFrame || null;
-    this.currentVideo.play();
-    this.startRendering();
-  }
-
-  pause() {
-    this.currentVideo?.pause();
-    this.stopRendering();
-  }
-
-  stop() {
-    if (this.currentVideo) {
-      this.currentVideo.pause();
-      this.currentVideo.currentTime = 0;
-    }
-    this.stopRendering();
-  }
-
-  private startRendering() {
-    const render = () => {
-      if (this.currentVideo && !this.currentVideo.paused) {
-        this.updateAsciiData();
-        if (this.onFrameCallback) this.onFrameCallback(this.data);
-        this.animationFrameId = requestAnimationFrame(render);
-      }
-    };
-    render();
-  }
-
-  private stopRendering() {
-    if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
-      this.animationFrameId = null;
-    }
-  }
+// ASCII 顯示區的字型大小與行高（px）
+const ASCII_FONT_SIZE = 8;
+const ASCII_LINE_HEIGHT = 8;
 
-  getAsciiFrame(): string[][] {
-    if (this.currentVideo) {
-      this.updateAsciiData();
-    } else {
-      this.computeAsciiFromCanvas();
-    }
-    return this.data;
-  }
+// 量測等寬字型的字元寬 / 行高，讓取樣間距直接補償字元長寬比
+function measureCharAspect(fontSize: number, lineHeight: number): number {
+  const ctx = document.createElement('canvas').getContext('2d');
+  if (!ctx) return 0.6;
+  ctx.font = `${fontSize}px monospace`;
+  const w = ctx.measureText('M').width;
+  return w > 0 ? w / lineHeight : 0.6;
+}
 
-  private updateAsciiData() {
-    const video = this.currentVideo;
-    if (!video) return;
-    const { videoWidth: w, videoHeight: h } = video;
-    this.ctx.drawImage(video, 0, 0, w, h);
-    this.computeAsciiFromCanvas();
-  }
+const rgbCss = (rgb: Uint8ClampedArray, o: number, k = 1) =>
+  `rgb(${Math.round(rgb[o] * k)},${Math.round(rgb[o + 1] * k)},${Math.round(rgb[o + 2] * k)})`;
 
-  private computeAsciiFromCanvas() {
-    const w = this.canvas.width;
-    const h = this.canvas.height;
-    const img = this.ctx.getImageData(0, 0, w, h).data;
-    const arr: string[][] = [];
-    for (let y = 0; y < h; y += this.step) {
-      const row: string[] = [];
-      for (let x = 0; x < w; x += this.step) {
-        let sum = 0;
-        for (let dy = 0; dy < this.step; dy++) {
-          for (let dx = 0; dx < this.step; dx++) {
-            const py = y + dy;
-            const px = x + dx;
-            if (py < h && px < w) {
-              const idx = (py * w + px) * 4;
-              sum += img[idx];
-            }
-          }
-        }
-        let avg = sum / (this.step * this.step);
-        if (this.invert) avg = 255 - avg;
-        const avg2 = avg > this.threshold ? 255 : avg;
-        const idx = Math.floor((avg2 / 255) * (this.chars.length - 1));
-        row.push(this.chars[idx]);
-      }
-      arr.push(row);
-    }
-    this.data = arr;
-  }
+// 秒數格式化為 m:ss.ss
+function formatTime(sec: number): string {
+  const m = Math.floor(sec / 60);
+  const s = sec - m * 60;
+  return `${m}:${s.toFixed(2).padStart(5, '0')}`;
+}
 
-  getCanvas(): HTMLCanvasElement {
-    return this.canvas;
-  }
+// 匯出圖片與影片可選的字型
+const EXPORT_FONTS = ['monospace', 'Courier New', 'Menlo', 'Consolas'];
 
-  getVideo(): HTMLVideoElement | null {
-    return this.currentVideo;
-  }
+// 以暫時的 object URL 觸發下載
+function downloadBlob(data: BlobPart, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
 
-  isPlaying(): boolean {
-    return this.currentVideo ? !this.currentVideo.paused : false;
+// 播放器錯誤代碼對應的提示文字
+function playerErrorMessage(error: VideoAsciiPlayerError): string {
+  switch (error.code) {
+    case 'LOAD_FAILED':
+    case 'UNSUPPORTED_FORMAT':
+      return '載入影片失敗: ' + error.message;
+    case 'PLAY_REJECTED':
+      return '瀏覽器阻擋了播放，請再按一次播放';
+    case 'WORKER_FAILED':
+      return 'Worker 無法使用，已改在主執行緒轉換';
+    case 'CONVERT_FAILED':
+      return '轉換畫面失敗: ' + error.message;
+    case 'CORS_TAINTED':
+      return '已停止播放: ' + error.message;
+    case 'NOT_LOADED':
+    default:
+      return error.message;
   }
+}
 
-  destroy() {
-    this.stop();
-    this.currentVideo = null;
-    this.canvas.width = 0;
-    this.canvas.height = 0;
-    this.data = [];
-    this.onFrameCallback = null;
+// 將一列字元依相同顏色合併成 span，減少 DOM 節點
+function renderColorRow(row: string[], colors: CellColors, y: number, mode: ColorRenderMode) {
+  const spans: React.ReactNode[] = [];
+  const base = y * colors.cols * 3;
+  let start = 0;
+  const sameColor = (a: number, b: number) => {
+    const oa = base + a * 3;
+    const ob = base + b * 3;
+    const same = (c: Uint8ClampedArray) => c[oa] === c[ob] && c[oa + 1] === c[ob + 1] && c[oa + 2] === c[ob + 2];
+    return same(colors.rgb) && (!colors.bg || same(colors.bg));
+  };
+  for (let x = 1; x <= row.length; x++) {
+    if (x < row.length && sameColor(start, x)) continue;
+    const o = base + start * 3;
+    // 半格模式自帶背景色（下半格），其他模式依顯示方式決定
+    const style: React.CSSProperties = colors.bg
+      ? { color: rgbCss(colors.rgb, o), background: rgbCss(colors.bg, o) }
+      : mode === 'fgbg'
+        ? { color: rgbCss(colors.rgb, o), background: rgbCss(colors.rgb, o, FGBG_BACKGROUND_SCALE) }
+        : { color: rgbCss(colors.rgb, o) };
+    spans.push(<span key={start} style={style}>{row.slice(start, x).join('')}</span>);
+    start = x;
   }
+  return spans;
 }
 
 // React 測試組件
 export default function VideoAsciiDemo() {
-  const [asciiFrame, setAsciiFrame] = useState<string[][]>([]);
+  const [frame, setFrame] = useState<CompactFrame | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string>('');
   const [step, setStep] = useState(3);
   const [useTargetCols, setUseTargetCols] = useState(false);
   const [targetCols, setTargetCols] = useState(80);
-  const [computedStepFromCols, setComputedStepFromCols] = useState<number | null>(null);
+  const [targetRows, setTargetRows] = useState(0);
+  const [computedCellSize, setComputedCellSize] = useState<CellSize | null>(null);
   const [chars, setChars] = useState('@%#*+=-:. ');
+  const [charsetLevels, setCharsetLevels] = useState(0);
   const playerRef = useRef<VideoAsciiPlayer | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const imageInputRef = useRef<HTMLInputElement>(null);
   const asciiContainerRef = useRef<HTMLDivElement | null>(null);
   const preRef = useRef<HTMLPreElement | null>(null);
   const [fitScale, setFitScale] = useState(1);
-  const scaleX = 2;
+  const charAspect = useMemo(() => measureCharAspect(ASCII_FONT_SIZE, ASCII_LINE_HEIGHT), []);
   const [invert, setInvert] = useState(false);
+  const [useWorker, setUseWorker] = useState(isWorkerModeSupported());
+  const [tone, setTone] = useState<ToneOptions>(DEFAULT_TONE);
+  const [colorRender, setColorRender] = useState<ColorRenderMode>('mono');
+  const [palette, setPalette] = useState<ColorPalette>('truecolor');
+  const [dither, setDither] = useState<DitherMode>('none');
+  const [ditherStrength, setDitherStrength] = useState(1);
+  const [renderMode, setRenderMode] = useState<RenderMode>('ascii');
+  const [brailleThreshold, setBrailleThreshold] = useState(DEFAULT_BRAILLE_THRESHOLD);
+  const [halfBlockThreshold, setHalfBlockThreshold] = useState(DEFAULT_HALF_BLOCK_THRESHOLD);
+  const [rendererKind, setRendererKind] = useState<'canvas' | 'dom'>('canvas');
+  const frameSetAtRef = useRef(0);
+  const frameTimesRef = useRef<number[]>([]);
+  const canvasStatsRef = useRef<RendererStats | null>(null);
+  const frameInfoRef = useRef({ timestamp: 0, frameNumber: 0 });
+  const [perf, setPerf] = useState<{ avgFrameMs: number; canvas: RendererStats | null; timestamp: number; frameNumber: number }>({
+    avgFrameMs: 0, canvas: null, timestamp: 0, frameNumber: 0,
+  });
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [loop, setLoop] = useState(true);
+  const [muted, setMuted] = useState(true);
+  const [volume, setVolume] = useState(1);
+  const [maxFps, setMaxFps] = useState(0);
+  const [adaptive, setAdaptive] = useState(false);
+  const [renderStats, setRenderStats] = useState<RenderStats | null>(null);
+  const [edges, setEdges] = useState({ enabled: false, threshold: DEFAULT_EDGE_THRESHOLD, blend: DEFAULT_EDGE_BLEND });
+  const [playlistIndex, setPlaylistIndex] = useState(-1);
+  const [shuffle, setShuffle] = useState(false);
+  const [autoAdvance, setAutoAdvance] = useState(true);
+  const [urlInput, setUrlInput] = useState('');
+  const [isDragging, setIsDragging] = useState(false);
+  const recorderRef = useRef<AsciiRecorder | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordedFrames, setRecordedFrames] = useState(0);
+  const [recording, setRecording] = useState<AsciiRecording | null>(null);
+  const [exportStyle, setExportStyle] = useState({ fontFamily: 'monospace', fontSize: 12, color: '#39ff66', background: '#000000', pixelRatio: 1 });
+  const [exportFps, setExportFps] = useState(12);
+  const [exportRange, setExportRange] = useState<ExportRange>({ start: 0, end: 0 });
+  const [exportProgress, setExportProgress] = useState<{ done: number; total: number } | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+
+  const streamRef = useRef<MediaStream | null>(null);
 
   useEffect(() => {
     return () => {
       playerRef.current?.destroy();
+      streamRef.current?.getTracks().forEach((track) => track.stop());
     };
   }, []);
 
+  // 以目前的控制項設定建立播放器
+  const createPlayer = (extra: VideoAsciiPlayerOptions = {}) => new VideoAsciiPlayer({
+    step, charAspect, chars, invert, loop, muted, volume, playbackRate, maxFps, adaptive,
+    color: colorRender !== 'mono', palette, dither, ditherStrength, renderMode, brailleThreshold, halfBlockThreshold,
+    edges: edges.enabled, edgeThreshold: edges.threshold, edgeBlend: edges.blend, ...tone, ...extra,
+  });
+
+  // 換上新的播放器，釋放舊的播放器與螢幕分享串流
+  const replacePlayer = (player: VideoAsciiPlayer, stream: MediaStream | null = null) => {
+    if (recorderRef.current?.isRecording()) stopRecording();
+    playerRef.current?.destroy();
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    playerRef.current = player;
+    streamRef.current = stream;
+    setPlaylistIndex(-1);
+  };
+
+  // 顯示一幀並記錄時間，用來量測從收到幀到畫面更新的耗時
+  const showFrame = (next: CompactFrame | null) => {
+    frameSetAtRef.current = performance.now();
+    setFrame(next);
+  };
+
+  // 子元件（canvas 繪製）的 layout effect 會先執行，這裡量到的是整個更新的耗時
+  useLayoutEffect(() => {
+    if (!frameSetAtRef.current) return;
+    const times = frameTimesRef.current;
+    times.push(performance.now() - frameSetAtRef.current);
+    if (times.length > 30) times.shift();
+    frameSetAtRef.current = 0;
+  }, [frame]);
+
+  // 只有 DOM 顯示需要逐列字串；canvas 顯示直接繪製精簡幀
+  const domRows = useMemo(() => (rendererKind === 'dom' && frame ? toAsciiFrame(frame) : null), [frame, rendererKind]);
+
+  // 統計數字每 500ms 更新一次，避免每幀多一次 render
+  useEffect(() => {
+    const id = setInterval(() => {
+      const times = frameTimesRef.current;
+      const avgFrameMs = times.length ? times.reduce((a, b) => a + b, 0) / times.length : 0;
+      setPerf({ avgFrameMs, canvas: canvasStatsRef.current, ...frameInfoRef.current });
+      if (recorderRef.current?.isRecording()) setRecordedFrames(recorderRef.current.frameCount);
+    }, 500);
+    return () => clearInterval(id);
+  }, []);
+
+  // 播放狀態、畫面與錯誤都由播放器事件驅動
+  const subscribePlayer = (player: VideoAsciiPlayer) => {
+    player.on('frame', ({ frame, timestamp, frameNumber }) => {
+      frameInfoRef.current = { timestamp, frameNumber };
+      setCurrentTime(timestamp);
+      showFrame(frame);
+    });
+    player.on('loaded', (e) => {
+      setDuration(e.duration);
+      setCurrentTime(0);
+      setExportRange({ start: 0, end: Math.min(e.duration, 5) });
+    });
+    player.on('seeked', (e) => setCurrentTime(e.currentTime));
+    player.on('stats', setRenderStats);
+    player.on('play', () => setIsPlaying(true));
+    player.on('pause', () => setIsPlaying(false));
+    player.on('ended', () => setIsPlaying(false));
+    player.on('playlistitem', ({ index }) => setPlaylistIndex(index));
+    player.on('volumechange', (e) => {
+      setMuted(e.muted);
+      setVolume(e.volume);
+    });
+    player.on('autoplayblocked', () => setError('瀏覽器阻擋了有聲自動播放，已改為靜音播放；按 🔇 開啟聲音'));
+    player.on('error', ({ error }) => setError(playerErrorMessage(error)));
+  };
+
+  useEffect(() => {
+    frameTimesRef.current = [];
+    canvasStatsRef.current = null;
+  }, [rendererKind]);
+
   useEffect(() => {
+    const player = playerRef.current;
     if (!useTargetCols) {
-      setComputedStepFromCols(null);
+      setComputedCellSize(null);
+      if (player && player.getCellSize().x !== step) {
+        player.setStep(step);
+        refreshPausedFrame(player);
+      }
       return;
     }
-    const player = playerRef.current;
     if (!player) return;
 
-    let imgW = 0;
-    const v = (player as any).getVideo ? (player as any).getVideo() : null;
-    if (v && v.videoWidth) imgW = v.videoWidth;
-    else if ((player as any).getCanvas) {
-      const c = (player as any).getCanvas();
-      if (c) imgW = c.width;
+    // 由播放器依來源長寬比、字元長寬比與點字等子格數換算取樣間距
+    player.setTargetSize(targetCols, targetRows);
+    setComputedCellSize(player.getCellSize());
+    refreshPausedFrame(player);
+  }, [useTargetCols, step, targetCols, targetRows, isLoading, renderMode]);
+
+  // 字元集變更（輸入、預設或密度排序）即時套用到目前的播放器
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player || !chars) return;
+    try {
+      player.setChars(chars);
+    } catch (e) {
+      setError((e as Error).message);
+      return;
     }
-    if (!imgW) return;
+    refreshPausedFrame(player);
+  }, [chars]);
 
-    const newStep = Math.max(1, Math.round(imgW / Math.max(1, targetCols)));
-    setComputedStepFromCols(newStep);
-    setStep(newStep);
-    if ((player as any).setStep) (player as any).setStep(newStep);
+  // 開啟來源失敗時，還沒換上的新播放器要釋放（連同它的 object URL）
+  const discardPlayer = (player: VideoAsciiPlayer | null) => {
+    if (player && player !== playerRef.current) player.destroy();
+  };
 
-    // reprocess immediate frame
-    if ((player as any).processImage) {
-      try {
-        (player as any).processImage();
-        const f = (player as any).getAsciiFrame();
-        if (f) setAsciiFrame(f);
-      } catch (e) {}
-    } else if ((player as any).getAsciiFrame) {
-      try {
-        const f = (player as any).getAsciiFrame();
-        if (f) setAsciiFrame(f);
-      } catch (e) {}
+  // 上傳、拖放或貼上的檔案：以 object URL 載入，GIF 解碼所有幀後以動畫播放
+  const loadFile = async (file: File) => {
+    setIsLoading(true);
+    setError('');
+    let player: VideoAsciiPlayer | null = null;
+    try {
+      if (!file.type.startsWith('video/') && !file.type.startsWith('image/')) {
+        throw new Error('請選擇影片或圖片檔案 (MP4, WebM, PNG, JPG, GIF 等)');
+      }
+      console.log('Loading file:', file.name, file.type);
+      player = createPlayer(file.type.startsWith('video/') ? { useWorker } : {});
+      subscribePlayer(player);
+      await player.openFile(file);
+      replacePlayer(player);
+      // 靜態圖片沒有時間軸，play() 只轉換一次並送出 frame 事件
+      player.play();
+    } catch (err) {
+      discardPlayer(player);
+      // 播放器的錯誤已經由 error 事件顯示
+      if (!(err instanceof VideoAsciiPlayerError)) setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
     }
-  }, [useTargetCols, targetCols, isLoading]);
+  };
 
+  // 由網址載入；外部網址需要伺服器允許 CORS 才能讀取像素
+  const loadUrl = async (url: string) => {
+    const src = url.trim();
+    if (!src) return;
+    setIsLoading(true);
+    setError('');
+    let player: VideoAsciiPlayer | null = null;
+    try {
+      player = createPlayer({ useWorker });
+      subscribePlayer(player);
+      await player.openUrl(src);
+      replacePlayer(player);
+      player.play();
+    } catch (err) {
+      discardPlayer(player);
+      if (!(err instanceof VideoAsciiPlayerError)) setError('載入網址失敗: ' + (err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
+  // 拖放或貼上的內容：優先使用檔案，其次是網址文字
+  const loadDataTransfer = (data: DataTransfer | null) => {
+    if (!data) return false;
+    const file = Array.from(data.files).find((f) => f.type.startsWith('video/') || f.type.startsWith('image/'));
+    if (file) {
+      loadFile(file);
+      return true;
+    }
+    const text = (data.getData('text/uri-list') || data.getData('text/plain')).split(/\r?\n/).find((line) => /^https?:\/\//.test(line.trim()));
+    if (text) {
+      setUrlInput(text.trim());
+      loadUrl(text);
+      return true;
+    }
+    return false;
+  };
 
-  const loadCustomVideo = async (file: File) => {
+  // 螢幕分享：MediaStream 直接交給播放器
+  const startScreenCapture = async () => {
     setIsLoading(true);
     setError('');
-    
+    let player: VideoAsciiPlayer | null = null;
+    let stream: MediaStream | null = null;
     try {
-      // 檢查檔案類型
-      if (!file.type.startsWith('video/')) {
-        throw new Error('請選擇影片檔案 (MP4, WebM, MOV 等)');
-      }
-      
-      console.log('Loading custom video:', file.name, file.type);
-      
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        try {
-          const src = e.target?.result as string;
-          const player = new VideoAsciiPlayer({ step, chars });
-          const video = await player.loadVideo(src);
-          
-              player.setVideo(video);
-              player.setInvert(invert);
-          playerRef.current?.destroy();
-          playerRef.current = player;
-          
-          player.play((frame) => {
-            setAsciiFrame(frame);
-            setIsPlaying(true);
-          });
-          
-          console.log('Custom video loaded successfully');
-          setIsLoading(false);
-        } catch (err) {
-          console.error('Video load error:', err);
-          setError('載入影片失敗: ' + ((err as Error).message || '檔案格式可能不支援'));
-          setIsLoading(false);
-        }
-      };
-      
-      reader.onerror = () => {
-        setError('讀取檔案失敗，請重試');
-        setIsLoading(false);
-      };
-      
-      reader.readAsDataURL(file);
+      stream = await navigator.mediaDevices.getDisplayMedia({ video: true });
+      player = createPlayer({ useWorker });
+      subscribePlayer(player);
+      await player.setSource(stream);
+      replacePlayer(player, stream);
+      player.play();
     } catch (err) {
-      console.error('File handling error:', err);
-      setError((err as Error).message);
+      if (player !== playerRef.current) stream?.getTracks().forEach((track) => track.stop());
+      discardPlayer(player);
+      if (!(err instanceof VideoAsciiPlayerError)) setError('無法開始螢幕分享: ' + (err as Error).message);
+    } finally {
       setIsLoading(false);
     }
   };
 
-  const loadImageFile = async (file: File) => {
+  // 播放示範影片；已經在播清單時沿用同一個播放器
+  const playClip = async (index: number) => {
     setIsLoading(true);
     setError('');
     try {
-      if (!file.type.startsWith('image/')) {
-        throw new Error('請選擇圖片檔案 (PNG, JPG, WebP 等)');
+      let player = playerRef.current;
+      if (!player || player.getPlaylist().items.length === 0) {
+        player = createPlayer({ useWorker });
+        subscribePlayer(player);
+        replacePlayer(player);
+        player.setPlaylist(BUNDLED_CLIPS, { shuffle, autoAdvance });
       }
-
-      const reader = new FileReader();
-      reader.onload = async (e) => {
-        try {
-          const src = e.target?.result as string;
-          const player = new VideoAsciiPlayer({ step, chars });
-          const img = await player.loadImage(src);
-
-          player.setImage(img);
-          player.setInvert(invert);
-          playerRef.current?.destroy();
-          playerRef.current = player;
-
-          // process image once and display
-          player.processImage();
-          const frame = player.getAsciiFrame();
-          setAsciiFrame(frame);
-          setIsPlaying(false);
-          setIsLoading(false);
-        } catch (err) {
-          console.error('Image load error:', err);
-          setError('載入圖片失敗: ' + ((err as Error).message || '檔案可能不支援'));
-          setIsLoading(false);
-        }
-      };
-      reader.onerror = () => {
-        setError('讀取檔案失敗，請重試');
-        setIsLoading(false);
-      };
-      reader.readAsDataURL(file);
+      await player.playAt(index);
     } catch (err) {
-      console.error('File handling error:', err);
-      setError((err as Error).message);
+      if (!(err instanceof VideoAsciiPlayerError)) setError('載入影片失敗: ' + (err as Error).message);
+    } finally {
       setIsLoading(false);
     }
   };
 
+  const handlePlaylistStep = (delta: 1 | -1) => {
+    const player = playerRef.current;
+    if (!player) return;
+    (delta > 0 ? player.next() : player.previous()).catch(() => {});
+  };
+
+  const updateShuffle = (next: boolean) => {
+    setShuffle(next);
+    playerRef.current?.setShuffle(next);
+  };
+
+  const updateAutoAdvance = (next: boolean) => {
+    setAutoAdvance(next);
+    playerRef.current?.setAutoAdvance(next);
+  };
+
   // 只有在內容寬或高超出容器時才縮放
   useEffect(() => {
     const updateFit = () => {
@@ -360,8 +423,7 @@ export default function VideoAsciiDemo() {
       const cW = Math.max(0, container.clientWidth - 8);
       const cH = Math.max(0, container.clientHeight - 8);
 
-      // compute visual size: account for pre's horizontal transform scaleX
-      const pW = (preEl.offsetWidth || preEl.clientWidth) * scaleX;
+      const pW = preEl.offsetWidth || preEl.clientWidth;
       const pH = preEl.offsetHeight || preEl.clientHeight;
       if (!pW || !pH) {
         setFitScale(1);
@@ -382,33 +444,225 @@ export default function VideoAsciiDemo() {
     const onResize = () => requestAnimationFrame(updateFit);
     window.addEventListener('resize', onResize);
     return () => window.removeEventListener('resize', onResize);
-  }, [asciiFrame, scaleX]);
+  }, [frame]);
 
   const handlePlayPause = () => {
     if (!playerRef.current) return;
     
     if (isPlaying) {
       playerRef.current.pause();
-      setIsPlaying(false);
     } else {
-      playerRef.current.play((frame) => {
-        setAsciiFrame(frame);
-      });
-      setIsPlaying(true);
+      playerRef.current.play();
     }
   };
 
+  // 色調調整即時套用
+  const updateTone = (patch: Partial<ToneOptions>) => {
+    setTone(prev => ({ ...prev, ...patch }));
+    const player = playerRef.current;
+    if (!player) return;
+    player.setTone(patch);
+    refreshPausedFrame(player);
+  };
+
+  // 暫停或圖片模式下重新計算目前畫面（播放中下一幀會自動套用）
+  const refreshPausedFrame = (player: VideoAsciiPlayer) => {
+    if (player.isPlaying()) return;
+    try {
+      showFrame(player.refreshCompactFrame());
+    } catch (e) {}
+  };
+
+  const updateColorMode = (mode: ColorRenderMode, nextPalette: ColorPalette) => {
+    setColorRender(mode);
+    setPalette(nextPalette);
+    const player = playerRef.current;
+    if (!player) return;
+    player.setColorMode(mode !== 'mono', nextPalette);
+    refreshPausedFrame(player);
+  };
+
+  const updateDither = (mode: DitherMode, strength: number) => {
+    setDither(mode);
+    setDitherStrength(strength);
+    const player = playerRef.current;
+    if (!player) return;
+    player.setDither(mode, strength);
+    refreshPausedFrame(player);
+  };
+
+  const updateRenderMode = (mode: RenderMode) => {
+    setRenderMode(mode);
+    const player = playerRef.current;
+    if (!player) return;
+    player.setRenderMode(mode);
+    refreshPausedFrame(player);
+  };
+
+  const updateSubcellThreshold = (value: number) => {
+    if (renderMode === 'braille') setBrailleThreshold(value);
+    else setHalfBlockThreshold(value);
+    const player = playerRef.current;
+    if (!player) return;
+    player.setSubcellThresholds(renderMode === 'braille' ? { braille: value } : { halfBlock: value });
+    refreshPausedFrame(player);
+  };
+
+  const updateEdges = (patch: Partial<typeof edges>) => {
+    setEdges(prev => ({ ...prev, ...patch }));
+    const player = playerRef.current;
+    if (!player) return;
+    player.setEdges(patch);
+    refreshPausedFrame(player);
+  };
+
   const handleStop = () => {
     playerRef.current?.stop();
-    setIsPlaying(false);
-    setAsciiFrame([]);
+    setCurrentTime(0);
+    showFrame(null);
+  };
+
+  const handleSeek = (time: number) => {
+    setCurrentTime(time);
+    playerRef.current?.seek(time).catch(() => {});
+  };
+
+  const handleStepFrame = (delta: number) => {
+    playerRef.current?.stepFrame(delta).catch(() => {});
+  };
+
+  const updatePlaybackRate = (rate: number) => {
+    setPlaybackRate(rate);
+    playerRef.current?.setPlaybackRate(rate);
+  };
+
+  const updateLoop = (next: boolean) => {
+    setLoop(next);
+    playerRef.current?.setLoop(next);
+  };
+
+  // 錄製播放器送出的每一幀；達到上限時自動停止
+  const startRecording = () => {
+    const player = playerRef.current;
+    if (!player) return;
+    if (!recorderRef.current) {
+      recorderRef.current = new AsciiRecorder({
+        onLimit: (rec) => {
+          setIsRecording(false);
+          setRecording(rec);
+          setRecordedFrames(rec.frames.length);
+        },
+      });
+    }
+    recorderRef.current.start(player);
+    setRecording(null);
+    setRecordedFrames(0);
+    setIsRecording(true);
+  };
+
+  const stopRecording = () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    const rec = recorder.stop();
+    setIsRecording(false);
+    setRecording(rec.frames.length > 0 ? rec : null);
+    setRecordedFrames(rec.frames.length);
+  };
+
+  const downloadRecording = (format: 'cast' | 'zip' | 'json') => {
+    if (!recording) return;
+    const name = `ascii-${new Date(recording.startedAt * 1000).toISOString().replace(/[:.]/g, '-')}`;
+    if (format === 'cast') {
+      downloadBlob(toAsciicast(recording, { title: 'Video ASCII Player', colorMode: colorRender, palette }), `${name}.cast`, 'application/x-asciicast');
+    } else if (format === 'zip') {
+      downloadBlob(toFrameArchive(recording), `${name}.zip`, 'application/zip');
+    } else {
+      downloadBlob(toFrameSequenceJson(recording), `${name}.json`, 'application/json');
+    }
+  };
+
+  // 匯出目前畫面或時間範圍；範圍匯出期間播放器會暫停並逐幀跳轉
+  const runExport = async (kind: 'png' | 'gif' | 'webm') => {
+    const player = playerRef.current;
+    if (!player || exportAbortRef.current) return;
+    const style = { ...exportStyle, lineHeight: exportStyle.fontSize, colorMode: colorRender };
+    const name = `ascii-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    setError('');
+    if (kind === 'png') {
+      const frame = player.getCompactFrame();
+      if (!frame) return;
+      try {
+        downloadBlob(await exportPng(frame, style), `${name}.png`, 'image/png');
+      } catch (err) {
+        setError('匯出失敗: ' + (err as Error).message);
+      }
+      return;
+    }
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setExportProgress({ done: 0, total: 0 });
+    try {
+      const options = {
+        style,
+        fps: exportFps,
+        signal: controller.signal,
+        onProgress: (done: number, total: number) => setExportProgress({ done, total }),
+      };
+      const blob = kind === 'gif'
+        ? await exportGif(player, exportRange, options)
+        : await exportWebm(player, exportRange, options);
+      downloadBlob(blob, `${name}.${kind}`, blob.type);
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') setError('匯出失敗: ' + (err as Error).message);
+    } finally {
+      exportAbortRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  // 以顯示用的字型量測密度排序字元集；levels 為 0 時保留所有不重複的階層
+  const orderChars = (source: string, levels = charsetLevels) => {
+    const sorted = sortCharsetByDensity(source, { fontFamily: 'monospace', levels: levels || undefined });
+    if (sorted) setChars(sorted);
+  };
+
+  const applyCharsetPreset = (id: string) => {
+    const preset = CHARSET_PRESETS.find((p) => p.id === id);
+    if (!preset) return;
+    if (preset.needsMeasure || charsetLevels) orderChars(preset.chars);
+    else setChars(preset.chars);
+  };
+
+  // 在點擊事件中取消靜音，符合瀏覽器的自動播放政策
+  const updateMuted = (next: boolean) => {
+    setMuted(next);
+    if (!next) setError('');
+    playerRef.current?.setMuted(next);
+  };
+
+  const updateVolume = (next: number) => {
+    setVolume(next);
+    playerRef.current?.setVolume(next);
+    if (next > 0 && muted) updateMuted(false);
+  };
+
+  const updateMaxFps = (fps: number) => {
+    setMaxFps(fps);
+    playerRef.current?.setMaxFps(fps);
+  };
+
+  const updateAdaptive = (next: boolean) => {
+    setAdaptive(next);
+    playerRef.current?.setAdaptive(next);
   };
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      loadCustomVideo(file);
+      loadFile(file);
     }
+    // 清空讓同一個檔案可以再選一次
+    e.target.value = '';
   };
 
   return (
@@ -432,19 +686,31 @@ export default function VideoAsciiDemo() {
               />
               <span style={{ fontSize: 12, color: '#9ca3a8' }}>數字越小，細節越多（但較慢）</span>
               <div style={{ marginTop: 8, display: 'flex', gap: 8, alignItems: 'center' }}>
-                <label style={{ color: '#9ca3a8' }}>以目標字寬計算:</label>
+                <label style={{ color: '#9ca3a8' }}>以目標欄 x 列計算:</label>
                 <input
                   type="number"
                   min={10}
-                  max={200}
+                  max={400}
                   value={targetCols}
                   onChange={(e) => setTargetCols(Number(e.target.value) || 0)}
                   style={{ width: 80, padding: '4px 6px', borderRadius: 4 }}
                 />
+                <span>x</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={400}
+                  value={targetRows}
+                  title="0 表示只限制欄數"
+                  onChange={(e) => setTargetRows(Number(e.target.value) || 0)}
+                  style={{ width: 80, padding: '4px 6px', borderRadius: 4 }}
+                />
                 <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
                   <input type="checkbox" checked={useTargetCols} onChange={(e) => setUseTargetCols(e.target.checked)} /> 使用
                 </label>
-                <div style={{ color: '#9ca3a8' }}>計算 step: {computedStepFromCols ?? '-'}</div>
+                <div style={{ color: '#9ca3a8' }}>
+                  計算 step: {computedCellSize ? `${computedCellSize.x.toFixed(1)} x ${computedCellSize.y.toFixed(1)}` : '-'}
+                </div>
               </div>
             </div>
 
@@ -457,7 +723,216 @@ export default function VideoAsciiDemo() {
                 style={{ width: '100%', background: '#000', border: '1px solid #2f8f66', padding: 8, borderRadius: 4, color: '#39ff66' }}
                 disabled={isPlaying}
               />
-              <span style={{ fontSize: 12, color: '#9ca3a8' }}>從暗到亮排列</span>
+              <span style={{ fontSize: 12, color: '#9ca3a8' }}>從暗到亮排列（索引 0 對應最暗的像素），可用「依密度排序」自動排列</span>
+              <div style={{ marginTop: 8, display: 'flex', flexWrap: 'wrap', gap: 8, alignItems: 'center' }}>
+                <select
+                  value={CHARSET_PRESETS.find((p) => p.chars === chars)?.id ?? ''}
+                  onChange={(e) => applyCharsetPreset(e.target.value)}
+                  disabled={isPlaying}
+                  style={{ background: '#000', border: '1px solid #2f8f66', padding: 4, borderRadius: 4, color: '#39ff66' }}
+                >
+                  <option value="" disabled>預設字元集…</option>
+                  {CHARSET_PRESETS.map((preset) => (
+                    <option key={preset.id} value={preset.id}>{preset.name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => orderChars(chars)}
+                  disabled={isPlaying || !chars}
+                  title="以目前字型量測每個字元的墨水覆蓋率，排序並去除重複"
+                  style={{ padding: '4px 10px', background: '#111827', color: '#fff', borderRadius: 6, cursor: 'pointer', opacity: isPlaying || !chars ? 0.6 : 1 }}
+                >
+                  依密度排序
+                </button>
+                <label style={{ display: 'flex', alignItems: 'center', gap: 6, color: '#9ca3a8' }}>
+                  <span title="挑出覆蓋率等距的字元，0 表示全部保留">等距階層</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={70}
+                    value={charsetLevels}
+                    onChange={(e) => setCharsetLevels(Math.max(0, Number(e.target.value) || 0))}
+                    style={{ width: 56, padding: '2px 4px', borderRadius: 4 }}
+                  />
+                </label>
+              </div>
+            </div>
+
+            <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(200px, 1fr))', gap: 12 }}>
+              <div>
+                <label style={{ display: 'block', marginBottom: 6 }}>亮度模型:</label>
+                <select
+                  value={tone.luminance}
+                  onChange={(e) => updateTone({ luminance: e.target.value as LuminanceModel })}
+                  style={{ width: '100%', background: '#000', border: '1px solid #2f8f66', padding: 6, borderRadius: 4, color: '#39ff66' }}
+                >
+                  <option value="rec601">Rec.601</option>
+                  <option value="rec709">Rec.709</option>
+                  <option value="average">RGB 平均</option>
+                  <option value="red">紅色通道</option>
+                  <option value="green">綠色通道</option>
+                  <option value="blue">藍色通道</option>
+                </select>
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: 6 }}>亮度: {tone.brightness.toFixed(2)}</label>
+                <input
+                  type="range"
+                  min="-1"
+                  max="1"
+                  step="0.05"
+                  value={tone.brightness}
+                  onChange={(e) => updateTone({ brightness: Number(e.target.value) })}
+                  style={{ width: '100%' }}
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: 6 }}>對比: {tone.contrast.toFixed(2)}</label>
+                <input
+                  type="range"
+                  min="0"
+                  max="3"
+                  step="0.05"
+                  value={tone.contrast}
+                  onChange={(e) => updateTone({ contrast: Number(e.target.value) })}
+                  style={{ width: '100%' }}
+                />
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: 6 }}>Gamma: {tone.gamma.toFixed(2)}</label>
+                <input
+                  type="range"
+                  min="0.2"
+                  max="3"
+                  step="0.05"
+                  value={tone.gamma}
+                  onChange={(e) => updateTone({ gamma: Number(e.target.value) })}
+                  style={{ width: '100%' }}
+                />
+              </div>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                <input type="checkbox" checked={tone.autoLevels} onChange={(e) => updateTone({ autoLevels: e.target.checked })} /> 自動色階
+              </label>
+              <div>
+                <label style={{ display: 'block', marginBottom: 6 }}>色彩模式:</label>
+                <select
+                  value={colorRender}
+                  onChange={(e) => updateColorMode(e.target.value as ColorRenderMode, palette)}
+                  style={{ width: '100%', background: '#000', border: '1px solid #2f8f66', padding: 6, borderRadius: 4, color: '#39ff66' }}
+                >
+                  <option value="mono">單色</option>
+                  <option value="text">彩色文字</option>
+                  <option value="fgbg">前景/背景</option>
+                </select>
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: 6 }}>調色盤:</label>
+                <select
+                  value={palette}
+                  disabled={colorRender === 'mono'}
+                  onChange={(e) => updateColorMode(colorRender, e.target.value as ColorPalette)}
+                  style={{ width: '100%', background: '#000', border: '1px solid #2f8f66', padding: 6, borderRadius: 4, color: '#39ff66' }}
+                >
+                  <option value="truecolor">Truecolor</option>
+                  <option value="ansi256">256 色</option>
+                  <option value="ansi16">16 色</option>
+                </select>
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: 6 }}>輸出模式:</label>
+                <select
+                  value={renderMode}
+                  onChange={(e) => updateRenderMode(e.target.value as RenderMode)}
+                  style={{ width: '100%', background: '#000', border: '1px solid #2f8f66', padding: 6, borderRadius: 4, color: '#39ff66' }}
+                >
+                  <option value="ascii">ASCII 字元</option>
+                  <option value="braille">點字 (2x4)</option>
+                  <option value="halfblock">半格方塊 (▀▄)</option>
+                </select>
+              </div>
+              {renderMode !== 'ascii' && (
+                <div>
+                  <label style={{ display: 'block', marginBottom: 6 }}>
+                    {renderMode === 'braille' ? '點字' : '半格'}門檻: {renderMode === 'braille' ? brailleThreshold : halfBlockThreshold}
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="255"
+                    value={renderMode === 'braille' ? brailleThreshold : halfBlockThreshold}
+                    disabled={renderMode === 'halfblock' && colorRender !== 'mono'}
+                    onChange={(e) => updateSubcellThreshold(Number(e.target.value))}
+                    style={{ width: '100%' }}
+                  />
+                </div>
+              )}
+              {renderMode === 'ascii' && (
+                <>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                    <input type="checkbox" checked={edges.enabled} onChange={(e) => updateEdges({ enabled: e.target.checked })} /> 邊緣字元 (| / - \ _)
+                  </label>
+                  <div>
+                    <label style={{ display: 'block', marginBottom: 6 }}>邊緣門檻: {edges.threshold.toFixed(2)}</label>
+                    <input
+                      type="range"
+                      min="0.02"
+                      max="1"
+                      step="0.01"
+                      value={edges.threshold}
+                      disabled={!edges.enabled}
+                      onChange={(e) => updateEdges({ threshold: Number(e.target.value) })}
+                      style={{ width: '100%' }}
+                    />
+                  </div>
+                  <div>
+                    <label style={{ display: 'block', marginBottom: 6 }}>邊緣混合: {edges.blend.toFixed(2)}</label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={edges.blend}
+                      disabled={!edges.enabled}
+                      onChange={(e) => updateEdges({ blend: Number(e.target.value) })}
+                      style={{ width: '100%' }}
+                    />
+                  </div>
+                </>
+              )}
+              <div>
+                <label style={{ display: 'block', marginBottom: 6 }}>抖動 (dithering):</label>
+                <select
+                  value={dither}
+                  onChange={(e) => updateDither(e.target.value as DitherMode, ditherStrength)}
+                  style={{ width: '100%', background: '#000', border: '1px solid #2f8f66', padding: 6, borderRadius: 4, color: '#39ff66' }}
+                >
+                  <option value="none">無</option>
+                  <option value="floyd-steinberg">Floyd–Steinberg</option>
+                  <option value="atkinson">Atkinson</option>
+                  <option value="bayer2">Bayer 2x2</option>
+                  <option value="bayer4">Bayer 4x4</option>
+                  <option value="bayer8">Bayer 8x8</option>
+                </select>
+              </div>
+              <div>
+                <label style={{ display: 'block', marginBottom: 6 }}>擴散強度: {ditherStrength.toFixed(2)}</label>
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={ditherStrength}
+                  disabled={dither !== 'floyd-steinberg' && dither !== 'atkinson'}
+                  onChange={(e) => updateDither(dither, Number(e.target.value))}
+                  style={{ width: '100%' }}
+                />
+              </div>
+              <button
+                onClick={() => updateTone(DEFAULT_TONE)}
+                style={{ padding: '6px 10px', background: '#111827', color: '#fff', borderRadius: 6, cursor: 'pointer' }}
+              >
+                重設色調
+              </button>
             </div>
           </div>
 
@@ -479,6 +954,16 @@ export default function VideoAsciiDemo() {
               🖼️ 載入圖片
             </button>
 
+            {typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia && (
+              <button
+                onClick={startScreenCapture}
+                disabled={isLoading || isPlaying}
+                style={{ padding: '8px 12px', background: '#0f766e', color: '#fff', borderRadius: 6, cursor: 'pointer', opacity: isLoading || isPlaying ? 0.6 : 1 }}
+              >
+                🖥️ 螢幕分享
+              </button>
+            )}
+
             <input
               ref={fileInputRef}
               type="file"
@@ -491,10 +976,7 @@ export default function VideoAsciiDemo() {
               ref={imageInputRef}
               type="file"
               accept="image/*"
-              onChange={(e) => {
-                const file = e.target.files?.[0];
-                if (file) loadImageFile(file);
-              }}
+              onChange={handleFileChange}
               style={{ display: 'none' }}
             />
 
@@ -520,8 +1002,7 @@ export default function VideoAsciiDemo() {
                 if (playerRef.current) {
                   playerRef.current.setInvert(next);
                   try {
-                    const frame = playerRef.current.getAsciiFrame();
-                    setAsciiFrame(frame);
+                    showFrame(playerRef.current.refreshCompactFrame());
                   } catch (e) {}
                 }
               }}
@@ -529,7 +1010,279 @@ export default function VideoAsciiDemo() {
             >
               反轉亮度
             </button>
-            
+            <label style={{ display: 'flex', alignItems: 'center', gap: 6, color: '#9ca3a8' }}>
+              <input
+                type="checkbox"
+                checked={useWorker}
+                disabled={!isWorkerModeSupported() || isPlaying}
+                onChange={(e) => setUseWorker(e.target.checked)}
+              />
+              <span title="重新載入影片後生效">Worker 轉換</span>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 6, color: '#9ca3a8' }}>
+              <span>最大 FPS</span>
+              <select
+                value={maxFps}
+                onChange={(e) => updateMaxFps(Number(e.target.value))}
+                style={{ background: '#000', border: '1px solid #2f8f66', padding: 4, borderRadius: 4, color: '#39ff66' }}
+              >
+                {MAX_FPS_OPTIONS.map((fps) => (
+                  <option key={fps} value={fps}>{fps === 0 ? '不限' : fps}</option>
+                ))}
+              </select>
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 6, color: '#9ca3a8' }}>
+              <input type="checkbox" checked={adaptive} onChange={(e) => updateAdaptive(e.target.checked)} />
+              <span title="轉換太慢時自動放大取樣間距">自適應品質</span>
+            </label>
+          </div>
+
+          {/* 錄製與匯出 */}
+          <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8, marginTop: 12 }}>
+            <button
+              onClick={isRecording ? stopRecording : startRecording}
+              disabled={!playerRef.current}
+              style={{ padding: '6px 10px', background: isRecording ? '#dc2626' : '#111827', color: '#fff', borderRadius: 6, cursor: 'pointer', opacity: !playerRef.current ? 0.6 : 1 }}
+            >
+              {isRecording ? '⏹️ 停止錄製' : '⏺️ 錄製'}
+            </button>
+            {(isRecording || recording) && (
+              <span style={{ color: '#9ca3a8' }}>
+                {recordedFrames} 幀{recording && ` ・ ${recording.duration.toFixed(1)} 秒 ・ ${recording.cols} x ${recording.rows}`}
+              </span>
+            )}
+            {recording && (['cast', 'zip', 'json'] as const).map((format) => (
+              <button
+                key={format}
+                onClick={() => downloadRecording(format)}
+                style={{ padding: '6px 10px', background: '#111827', color: '#fff', borderRadius: 6, cursor: 'pointer' }}
+              >
+                ⬇️ .{format}
+              </button>
+            ))}
+          </div>
+
+          {/* 時間軸 */}
+          {duration > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8, marginTop: 12 }}>
+              <button
+                onClick={() => handleStepFrame(-1)}
+                title="上一幀"
+                style={{ padding: '4px 8px', background: '#111827', color: '#fff', borderRadius: 6, cursor: 'pointer' }}
+              >
+                ⏮
+              </button>
+              <button
+                onClick={() => handleStepFrame(1)}
+                title="下一幀"
+                style={{ padding: '4px 8px', background: '#111827', color: '#fff', borderRadius: 6, cursor: 'pointer' }}
+              >
+                ⏭
+              </button>
+              <input
+                type="range"
+                min="0"
+                max={duration}
+                step="0.01"
+                value={Math.min(currentTime, duration)}
+                onChange={(e) => handleSeek(Number(e.target.value))}
+                style={{ flex: 1, minWidth: 160 }}
+              />
+              <span style={{ color: '#9ca3a8', fontSize: 13 }}>{formatTime(currentTime)} / {formatTime(duration)}</span>
+              <select
+                value={playbackRate}
+                onChange={(e) => updatePlaybackRate(Number(e.target.value))}
+                style={{ background: '#000', border: '1px solid #2f8f66', padding: 4, borderRadius: 4, color: '#39ff66' }}
+              >
+                {[0.25, 0.5, 1, 1.5, 2].map((rate) => (
+                  <option key={rate} value={rate}>{rate}x</option>
+                ))}
+              </select>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 6, color: '#9ca3a8' }}>
+                <input type="checkbox" checked={loop} onChange={(e) => updateLoop(e.target.checked)} />
+                <span>循環播放</span>
+              </label>
+              <button
+                onClick={() => updateMuted(!muted)}
+                title={muted ? '開啟聲音' : '靜音'}
+                style={{ padding: '4px 8px', background: '#111827', color: '#fff', borderRadius: 6, cursor: 'pointer' }}
+              >
+                {muted ? '🔇' : '🔊'}
+              </button>
+              <input
+                type="range"
+                min="0"
+                max="1"
+                step="0.05"
+                value={muted ? 0 : volume}
+                title={`音量 ${Math.round(volume * 100)}%`}
+                onChange={(e) => updateVolume(Number(e.target.value))}
+                style={{ width: 80 }}
+              />
+            </div>
+          )}
+
+          {/* 匯出圖片與影片 */}
+          <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8, marginTop: 12, color: '#9ca3a8' }}>
+            <span style={{ color: '#39ff66' }}>匯出:</span>
+            <select
+              value={exportStyle.fontFamily}
+              onChange={(e) => setExportStyle(prev => ({ ...prev, fontFamily: e.target.value }))}
+              style={{ background: '#000', border: '1px solid #2f8f66', padding: 4, borderRadius: 4, color: '#39ff66' }}
+            >
+              {EXPORT_FONTS.map((font) => <option key={font} value={font}>{font}</option>)}
+            </select>
+            <select
+              value={exportStyle.fontSize}
+              title="字型大小 (px)"
+              onChange={(e) => setExportStyle(prev => ({ ...prev, fontSize: Number(e.target.value) }))}
+              style={{ background: '#000', border: '1px solid #2f8f66', padding: 4, borderRadius: 4, color: '#39ff66' }}
+            >
+              {[8, 10, 12, 16, 20].map((size) => <option key={size} value={size}>{size}px</option>)}
+            </select>
+            <select
+              value={exportStyle.pixelRatio}
+              title="解析度倍率"
+              onChange={(e) => setExportStyle(prev => ({ ...prev, pixelRatio: Number(e.target.value) }))}
+              style={{ background: '#000', border: '1px solid #2f8f66', padding: 4, borderRadius: 4, color: '#39ff66' }}
+            >
+              {[1, 2, 3].map((ratio) => <option key={ratio} value={ratio}>{ratio}x</option>)}
+            </select>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+              字
+              <input type="color" value={exportStyle.color} onChange={(e) => setExportStyle(prev => ({ ...prev, color: e.target.value }))} />
+            </label>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+              底
+              <input type="color" value={exportStyle.background} onChange={(e) => setExportStyle(prev => ({ ...prev, background: e.target.value }))} />
+            </label>
+            {duration > 0 && (
+              <>
+                <input
+                  type="number"
+                  min={0}
+                  max={duration}
+                  step={0.1}
+                  value={exportRange.start}
+                  title="開始 (秒)"
+                  onChange={(e) => setExportRange(prev => ({ ...prev, start: Number(e.target.value) }))}
+                  style={{ width: 64, padding: '2px 4px', borderRadius: 4 }}
+                />
+                <span>~</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={duration}
+                  step={0.1}
+                  value={exportRange.end}
+                  title="結束 (秒)"
+                  onChange={(e) => setExportRange(prev => ({ ...prev, end: Number(e.target.value) }))}
+                  style={{ width: 64, padding: '2px 4px', borderRadius: 4 }}
+                />
+                <span>秒 @</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={60}
+                  value={exportFps}
+                  title="每秒幀數"
+                  onChange={(e) => setExportFps(Math.max(1, Number(e.target.value) || 1))}
+                  style={{ width: 48, padding: '2px 4px', borderRadius: 4 }}
+                />
+                <span>fps</span>
+              </>
+            )}
+            <button
+              onClick={() => runExport('png')}
+              disabled={!playerRef.current || !!exportProgress}
+              style={{ padding: '6px 10px', background: '#111827', color: '#fff', borderRadius: 6, cursor: 'pointer' }}
+            >
+              🖼️ PNG
+            </button>
+            <button
+              onClick={() => runExport('gif')}
+              disabled={!playerRef.current || !!exportProgress}
+              style={{ padding: '6px 10px', background: '#111827', color: '#fff', borderRadius: 6, cursor: 'pointer' }}
+            >
+              🎞️ GIF
+            </button>
+            {isWebmExportSupported() && (
+              <button
+                onClick={() => runExport('webm')}
+                disabled={!playerRef.current || !!exportProgress}
+                title="錄製需要與片段等長的時間"
+                style={{ padding: '6px 10px', background: '#111827', color: '#fff', borderRadius: 6, cursor: 'pointer' }}
+              >
+                🎬 WebM
+              </button>
+            )}
+            {exportProgress && (
+              <>
+                <span>{exportProgress.total ? `${exportProgress.done} / ${exportProgress.total} 幀` : '準備中…'}</span>
+                <button
+                  onClick={() => exportAbortRef.current?.abort()}
+                  style={{ padding: '6px 10px', background: '#dc2626', color: '#fff', borderRadius: 6, cursor: 'pointer' }}
+                >
+                  取消
+                </button>
+              </>
+            )}
+          </div>
+
+          {/* 網址 */}
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              loadUrl(urlInput);
+            }}
+            style={{ display: 'flex', gap: 8, marginTop: 12 }}
+          >
+            <input
+              type="url"
+              value={urlInput}
+              placeholder="影片或圖片網址 (https://...)"
+              onChange={(e) => setUrlInput(e.target.value)}
+              style={{ flex: 1, background: '#000', border: '1px solid #2f8f66', padding: 6, borderRadius: 4, color: '#39ff66' }}
+            />
+            <button
+              type="submit"
+              disabled={isLoading || !urlInput.trim()}
+              style={{ padding: '6px 10px', background: '#111827', color: '#fff', borderRadius: 6, cursor: 'pointer', opacity: isLoading || !urlInput.trim() ? 0.6 : 1 }}
+            >
+              🔗 載入網址
+            </button>
+          </form>
+
+          {/* 示範影片 */}
+          <div style={{ marginTop: 12 }}>
+            <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 8, marginBottom: 8 }}>
+              <span>示範影片:</span>
+              <button
+                onClick={() => handlePlaylistStep(-1)}
+                disabled={playlistIndex < 0 || isLoading}
+                title="上一部"
+                style={{ padding: '4px 8px', background: '#111827', color: '#fff', borderRadius: 6, cursor: 'pointer', opacity: playlistIndex < 0 ? 0.6 : 1 }}
+              >
+                ⏪
+              </button>
+              <button
+                onClick={() => handlePlaylistStep(1)}
+                disabled={playlistIndex < 0 || isLoading}
+                title="下一部"
+                style={{ padding: '4px 8px', background: '#111827', color: '#fff', borderRadius: 6, cursor: 'pointer', opacity: playlistIndex < 0 ? 0.6 : 1 }}
+              >
+                ⏩
+              </button>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 6, color: '#9ca3a8' }}>
+                <input type="checkbox" checked={shuffle} onChange={(e) => updateShuffle(e.target.checked)} />
+                <span>隨機</span>
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 6, color: '#9ca3a8' }}>
+                <input type="checkbox" checked={autoAdvance} onChange={(e) => updateAutoAdvance(e.target.checked)} />
+                <span title="關閉時依「循環播放」重播同一部">自動下一部</span>
+              </label>
+            </div>
+            <ClipGallery clips={BUNDLED_CLIPS} activeIndex={playlistIndex} disabled={isLoading} onSelect={playClip} />
           </div>
 
           {error && (
@@ -540,12 +1293,54 @@ export default function VideoAsciiDemo() {
         </div>
 
         {/* ASCII 顯示區 */}
-        <div ref={asciiContainerRef} style={{ background: '#000', border: '2px solid #2f8f66', borderRadius: 8, padding: 12, overflow: 'hidden', maxHeight: '60vh' }}>
-          {asciiFrame.length > 0 ? (
+        {/* 可拖放檔案或網址，點一下後可用 Ctrl+V 貼上 */}
+        <div
+          ref={asciiContainerRef}
+          tabIndex={0}
+          onDragOver={(e) => {
+            e.preventDefault();
+            e.dataTransfer.dropEffect = 'copy';
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setIsDragging(false);
+            if (!isLoading) loadDataTransfer(e.dataTransfer);
+          }}
+          onPaste={(e) => {
+            if (!isLoading && loadDataTransfer(e.clipboardData)) e.preventDefault();
+          }}
+          style={{
+            background: '#000',
+            border: `2px ${isDragging ? 'dashed #39ff66' : 'solid #2f8f66'}`,
+            borderRadius: 8,
+            padding: 12,
+            overflow: 'hidden',
+            maxHeight: '60vh',
+            outline: 'none',
+          }}
+        >
+          {frame && frame.rows > 0 && rendererKind === 'canvas' ? (
+            <AsciiCanvasRenderer
+              frame={frame}
+              fontSize={ASCII_FONT_SIZE}
+              lineHeight={ASCII_LINE_HEIGHT}
+              color="#39ff66"
+              background="#000"
+              colorMode={colorRender}
+              charset={chars}
+              onStats={(stats) => { canvasStatsRef.current = stats; }}
+            />
+          ) : frame && domRows && domRows.length > 0 ? (
             <div style={{ transform: `scale(${fitScale})`, transformOrigin: 'left top' }}>
-              <pre ref={preRef} style={{ fontSize: 8, lineHeight: '8px', whiteSpace: 'pre', letterSpacing: 0, margin: 0, display: 'inline-block', transform: `scaleX(${scaleX})`, transformOrigin: 'left top' }}>
-                {asciiFrame.map((row, i) => (
-                  <div key={i}>{row.join('')}</div>
+              <pre ref={preRef} style={{ fontSize: ASCII_FONT_SIZE, lineHeight: `${ASCII_LINE_HEIGHT}px`, whiteSpace: 'pre', letterSpacing: 0, margin: 0, display: 'inline-block' }}>
+                {domRows.map((row, i) => (
+                  <div key={i}>
+                    {colorRender !== 'mono' && frame.colors && frame.colors.cols === row.length
+                      ? renderColorRow(row, frame.colors, i, colorRender)
+                      : row.join('')}
+                  </div>
                 ))}
               </pre>
             </div>
@@ -553,13 +1348,38 @@ export default function VideoAsciiDemo() {
             <div style={{ textAlign: 'center', padding: '80px 0', color: '#9ca3a8' }}>
               <p style={{ fontSize: 28, marginBottom: 8 }}>🎥</p>
               <p>請載入影片開始播放</p>
+              <p style={{ marginTop: 8, fontSize: 12 }}>也可以把檔案或網址拖放到這裡，或點一下後按 Ctrl+V 貼上</p>
             </div>
           )}
         </div>
 
         {/* 資訊 */}
         <div style={{ marginTop: 16, textAlign: 'center', color: '#9ca3a8', fontSize: 13 }}>
-          <p>解析度: {asciiFrame[0]?.length || 0} x {asciiFrame.length || 0} 字元</p>
+          <p>解析度: {frame?.cols ?? 0} x {frame?.rows ?? 0} 字元</p>
+          <p style={{ marginTop: 8 }}>
+            顯示方式:{' '}
+            <select
+              value={rendererKind}
+              onChange={(e) => setRendererKind(e.target.value as 'canvas' | 'dom')}
+              style={{ background: '#000', border: '1px solid #2f8f66', padding: 2, borderRadius: 4, color: '#39ff66' }}
+            >
+              <option value="canvas">Canvas 圖集</option>
+              <option value="dom">DOM &lt;pre&gt;</option>
+            </select>
+            {' '}每幀更新 {perf.avgFrameMs.toFixed(2)} ms
+            {perf.frameNumber > 0 && <> ・ 第 {perf.frameNumber} 幀 @ {perf.timestamp.toFixed(2)}s</>}
+            {rendererKind === 'canvas' && perf.canvas && (
+              <> ・ 繪製 {perf.canvas.avgDrawMs.toFixed(2)} ms ・ 重畫 {perf.canvas.cellsDrawn}/{perf.canvas.totalCells} 格</>
+            )}
+          </p>
+          {renderStats && (
+            <p style={{ marginTop: 8 }}>
+              轉換 {renderStats.fps.toFixed(1)} fps ・ {renderStats.convertMs.toFixed(1)} ms/幀 ・ 丟幀 {renderStats.droppedFrames}
+              {renderStats.skippedFrames > 0 && <> ・ 限速略過 {renderStats.skippedFrames}</>}
+              {renderStats.adaptiveScale !== 1 && <> ・ 取樣間距 x{renderStats.adaptiveScale.toFixed(2)}</>}
+              {' '}({renderStats.clock === 'video-frame' ? 'requestVideoFrameCallback' : 'requestAnimationFrame'})
+            </p>
+          )}
           <p style={{ marginTop: 8 }}>💡 提示: 解析度調低 (step=1-2) 可看到更多細節，但會較慢</p>
         </div>
       </div>
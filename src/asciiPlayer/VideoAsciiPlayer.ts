@@ -1,31 +1,209 @@
 // VideoAsciiPlayer.ts
 // 改進版：加入播放控制、資源管理、錯誤處理
+// 輸入來源可為影片、MediaStream、圖片、canvas 或動畫幀（見 frameSource.ts）
 
-export interface VideoAsciiPlayerOptions {
+import { convertPixelsCompact, defaultThreshold, toAsciiFrame, DEFAULT_CHARS, DEFAULT_TONE } from './asciiConverter';
+import type { AsciiConvertOptions, AsciiFrame, CellColors, CellSize, CompactFrame, RenderMode, ToneOptions } from './asciiConverter';
+import { fitCellSize, resolveCellSize } from './cellSize';
+import { splitCharset } from './compactFrame';
+import type { ColorPalette } from './ansiPalette';
+import { createDitherState } from './dither';
+import type { DitherMode } from './dither';
+import { DEFAULT_BRAILLE_THRESHOLD, DEFAULT_HALF_BLOCK_THRESHOLD } from './subcellModes';
+import { DEFAULT_EDGE_BLEND, DEFAULT_EDGE_THRESHOLD } from './edgeGlyphs';
+import type { AsciiWorkerRequest, AsciiWorkerResponse } from './asciiWorker';
+import { TypedEventEmitter, VideoAsciiPlayerError } from './playerEvents';
+import type { PlayerErrorCode, RenderStats, VideoAsciiPlayerEvents } from './playerEvents';
+import { createFrameSource, decodeAnimation, FrameSource, FramesSource, VideoSource } from './frameSource';
+import type { AnimationFrame, FrameSourceInput, FrameSourceKind } from './frameSource';
+import { guessPlaylistItemKind, kindFromMimeType, Playlist } from './playlist';
+import type { PlaylistItem } from './playlist';
+
+export { VideoAsciiPlayerError } from './playerEvents';
+export type { PlayerErrorCode, RenderStats, VideoAsciiPlayerEvents } from './playerEvents';
+export { decodeAnimation, disposeAnimationFrames, FrameSource, FramesSource, ImageSource, VideoSource } from './frameSource';
+export type { AnimationFrame, FrameSourceInput, FrameSourceKind } from './frameSource';
+export { guessPlaylistItemKind, kindFromMimeType, Playlist } from './playlist';
+export type { PlaylistItem } from './playlist';
+
+export interface VideoAsciiPlayerOptions extends Partial<ToneOptions> {
   chars?: string;
   step?: number;
+  /** 個別指定水平/垂直取樣間距（像素，可為小數） */
+  stepX?: number;
+  stepY?: number;
+  /** 字元寬 / 行高，未指定 stepY 時依此推算垂直間距 */
+  charAspect?: number;
   threshold?: number;
+  invert?: boolean;
+  /** 彩色模式：每幀附上每格的平均 RGB */
+  color?: boolean;
+  palette?: ColorPalette;
+  /** 字元階層的抖動演算法 */
+  dither?: DitherMode;
+  ditherStrength?: number;
+  /** 輸出模式：一般字元、點字或半格方塊 */
+  renderMode?: RenderMode;
+  brailleThreshold?: number;
+  halfBlockThreshold?: number;
+  /** 邊緣模式（Sobel 梯度）與其門檻、混合比重 */
+  edges?: boolean;
+  edgeThreshold?: number;
+  edgeBlend?: number;
+  /** 使用 Web Worker + OffscreenCanvas 轉換（不支援時自動退回主執行緒） */
+  useWorker?: boolean;
+  /** 播完後從頭重播（預設 true） */
+  loop?: boolean;
+  /** 靜音（預設 true）；取消靜音時若瀏覽器擋下有聲自動播放，會改為靜音播放並觸發 autoplayblocked */
+  muted?: boolean;
+  /** 音量 0~1（預設 1） */
+  volume?: number;
+  playbackRate?: number;
+  /** stepFrame 使用的影格率；video 元素無法得知實際值（預設 30） */
+  frameRate?: number;
+  /** 每秒最多轉換的幀數，0 為不限制 */
+  maxFps?: number;
+  /** 自適應模式：依每幀轉換耗時自動放大或縮小取樣間距 */
+  adaptive?: boolean;
+  /** 自適應模式的每幀時間預算（ms，預設 16） */
+  frameBudgetMs?: number;
+  /** 自適應模式最多把取樣間距放大的倍率（預設 4） */
+  maxAdaptiveScale?: number;
+}
+
+/**
+ * 播放清單設定
+ * - shuffle: 隨機順序
+ * - autoAdvance: 播完自動換下一項（預設 true）；清單只有一項時依 loop 重播
+ */
+export interface PlaylistOptions {
+  shuffle?: boolean;
+  autoAdvance?: boolean;
+}
+
+/**
+ * 播放清單目前狀態；index 為 items 中的位置（尚未開始時為 -1）
+ */
+export interface PlaylistState {
+  items: readonly PlaylistItem[];
+  order: readonly number[];
+  index: number;
+  shuffle: boolean;
+  autoAdvance: boolean;
 }
 
-export class VideoAsciiPlayer {
-  private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
-  private chars: string;
-  private step: number;
-  private threshold: number;
-  private currentVideo: HTMLVideoElement | null = null;
-  private data: string[][] = [];
-  private animationFrameId: number | null = null;
-  private onFrameCallback: ((frame: string[][]) => void) | null = null;
+export type AsciiFrameCallback = (frame: AsciiFrame, colors: CellColors | null) => void;
+export type CompactFrameCallback = (frame: CompactFrame) => void;
+
+/**
+ * 傳給 onFrame 的幀格式：舊格式 string[][] 或精簡幀
+ */
+export type FrameFormat = 'array' | 'compact';
+
+/**
+ * 目前環境是否支援 Worker 轉換模式
+ */
+export function isWorkerModeSupported(): boolean {
+  return typeof Worker !== 'undefined'
+    && typeof OffscreenCanvas !== 'undefined'
+    && typeof createImageBitmap !== 'undefined';
+}
+
+// 轉送給播放器事件的來源事件
+const SOURCE_EVENTS = ['play', 'pause', 'ended', 'seeked'] as const;
+// 自適應模式每隔幾幀調整一次、每次調整的倍率
+const ADAPT_INTERVAL = 10;
+const ADAPT_STEP = 0.25;
+
+export class VideoAsciiPlayer extends TypedEventEmitter<VideoAsciiPlayerEvents> {
+  protected canvas: HTMLCanvasElement;
+  protected ctx: CanvasRenderingContext2D;
+  protected convertOptions: AsciiConvertOptions;
+  protected source: FrameSource | null = null;
+  protected compactFrame: CompactFrame | null = null;
+  protected colors: CellColors | null = null;
+  protected ditherState = createDitherState();
+  private legacyFrame: AsciiFrame | null = null;
+  private frameClock: { cancel: () => void } | null = null;
+  private onFrameCallback: AsciiFrameCallback | CompactFrameCallback | null = null;
+  private frameFormat: FrameFormat = 'array';
+  private worker: Worker | null = null;
+  private workerBusy = false;
+  private workerRequestId = 0;
+  private targetSize: { cols: number; rows: number } | null = null;
+  private detachSource: (() => void) | null = null;
+  private frameNumber = 0;
+  private loop: boolean;
+  private muted: boolean;
+  private volume: number;
+  private playbackRate: number;
+  private frameRate: number;
+  private seekToken = 0;
+  private maxFps: number;
+  private adaptive: boolean;
+  private frameBudgetMs: number;
+  private maxAdaptiveScale: number;
+  private adaptiveScale = 1;
+  private adaptCounter = 0;
+  private convertMsAvg = 0;
+  private lastConvertAt = 0;
+  private lastPresentedFrames = 0;
+  private workerPostedAt = 0;
+  private droppedFrames = 0;
+  private skippedFrames = 0;
+  private lastFrameIndex = -1;
+  private statsWindow = { start: 0, frames: 0, fps: 0 };
+  private playlist = new Playlist<PlaylistItem>();
+  private autoAdvance = true;
+  private playlistToken = 0;
+  // 由播放清單載入的來源；手動換來源後不再自動換下一項
+  private playlistSource: FrameSource | null = null;
+  // 目前來源使用的 object URL（換來源或 destroy() 時釋放）
+  private objectUrl: string | null = null;
 
   constructor(options: VideoAsciiPlayerOptions = {}) {
-    this.chars = options.chars ?? '@%#*+=-:. ';
-    this.step = options.step ?? 2;
-    this.threshold = options.threshold ?? Math.floor(255 * ((this.chars.length - 1) / this.chars.length));
+    super();
+    const chars = options.chars ?? DEFAULT_CHARS;
+    this.convertOptions = {
+      chars,
+      step: options.step ?? 2,
+      stepX: options.stepX,
+      stepY: options.stepY,
+      charAspect: options.charAspect,
+      threshold: options.threshold ?? defaultThreshold(chars),
+      invert: options.invert ?? false,
+      color: options.color ?? false,
+      palette: options.palette ?? 'truecolor',
+      dither: options.dither ?? 'none',
+      ditherStrength: options.ditherStrength ?? 1,
+      renderMode: options.renderMode ?? 'ascii',
+      brailleThreshold: options.brailleThreshold ?? DEFAULT_BRAILLE_THRESHOLD,
+      halfBlockThreshold: options.halfBlockThreshold ?? DEFAULT_HALF_BLOCK_THRESHOLD,
+      edges: options.edges ?? false,
+      edgeThreshold: options.edgeThreshold ?? DEFAULT_EDGE_THRESHOLD,
+      edgeBlend: options.edgeBlend ?? DEFAULT_EDGE_BLEND,
+      luminance: options.luminance ?? DEFAULT_TONE.luminance,
+      brightness: options.brightness ?? DEFAULT_TONE.brightness,
+      contrast: options.contrast ?? DEFAULT_TONE.contrast,
+      gamma: options.gamma ?? DEFAULT_TONE.gamma,
+      autoLevels: options.autoLevels ?? DEFAULT_TONE.autoLevels,
+    };
     this.canvas = document.createElement('canvas');
     const ctx = this.canvas.getContext('2d', { willReadFrequently: true });
     if (!ctx) throw new Error('Cannot get 2D context');
     this.ctx = ctx;
+    this.loop = options.loop ?? true;
+    this.muted = options.muted ?? true;
+    this.volume = clampVolume(options.volume ?? 1);
+    this.playbackRate = clampPlaybackRate(options.playbackRate ?? 1);
+    this.frameRate = Math.max(1, options.frameRate ?? 30);
+    this.maxFps = Math.max(0, options.maxFps ?? 0);
+    this.adaptive = options.adaptive ?? false;
+    this.frameBudgetMs = Math.max(1, options.frameBudgetMs ?? 16);
+    this.maxAdaptiveScale = Math.max(1, options.maxAdaptiveScale ?? 4);
+    if (options.useWorker && isWorkerModeSupported()) {
+      this.startWorker();
+    }
   }
 
   /**
@@ -34,50 +212,403 @@ export class VideoAsciiPlayer {
   async loadVideo(src: string): Promise<HTMLVideoElement> {
     return new Promise((resolve, reject) => {
       const video = document.createElement('video');
-      video.muted = true;
-      video.loop = true;
+      video.muted = this.muted;
+      video.volume = this.volume;
+      video.loop = this.loop;
       video.playsInline = true;
-      
+
       // 根據 src 類型決定是否需要 crossOrigin
-      if (!src.startsWith('data:') && !src.startsWith('blob:')) {
+      if (isRemoteUrl(src)) {
         video.crossOrigin = 'anonymous';
       }
-      
+
       video.onloadedmetadata = () => {
-        console.log('Video loaded:', video.videoWidth, 'x', video.videoHeight);
         resolve(video);
       };
-      
-      video.onerror = (err) => {
-        console.error('Video error:', err);
-        reject(new Error('影片載入失敗，請確認格式是否支援 (建議: MP4, WebM)'));
+
+      video.onerror = () => {
+        const unsupported = video.error?.code === MediaError.MEDIA_ERR_SRC_NOT_SUPPORTED;
+        reject(this.fail(
+          unsupported ? 'UNSUPPORTED_FORMAT' : 'LOAD_FAILED',
+          unsupported
+            ? '影片格式不支援 (建議: MP4, WebM)'
+            : `影片載入失敗，請確認檔案或網址是否正確${isRemoteUrl(src) ? '（外部網址需允許跨來源存取 CORS）' : ''}`,
+          video.error,
+        ));
       };
-      
+
       // 設定 src 要在事件監聽器之後
       video.src = src;
       video.load();
     });
   }
 
+  /**
+   * 把 MediaStream（攝影機、螢幕分享、canvas.captureStream()）掛到 video 元素上
+   */
+  async loadStream(stream: MediaStream): Promise<HTMLVideoElement> {
+    return new Promise((resolve, reject) => {
+      const video = document.createElement('video');
+      video.muted = true;
+      video.playsInline = true;
+      video.onloadedmetadata = () => resolve(video);
+      video.onerror = () => reject(this.fail('LOAD_FAILED', 'MediaStream 無法播放', video.error));
+      video.srcObject = stream;
+    });
+  }
+
+  /**
+   * 載入圖片（支援 base64 或 URL）
+   */
+  async loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+      const img = new Image();
+      if (isRemoteUrl(src)) img.crossOrigin = 'anonymous';
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(this.fail(
+        'LOAD_FAILED',
+        `圖片載入失敗，請確認檔案或網址是否正確${isRemoteUrl(src) ? '（外部網址需允許跨來源存取 CORS）' : ''}`,
+      ));
+      img.src = src;
+    });
+  }
+
+  /**
+   * 載入並解碼動畫圖片（GIF 等）的所有幀；瀏覽器不支援 ImageDecoder 時只有第一幀
+   */
+  async loadAnimation(src: string | Blob): Promise<AnimationFrame[]> {
+    try {
+      const blob = typeof src === 'string' ? await (await fetch(src)).blob() : src;
+      return await decodeAnimation(blob);
+    } catch (err) {
+      throw this.fail('UNSUPPORTED_FORMAT', '動畫圖片解碼失敗', err);
+    }
+  }
+
+  /**
+   * 由網址載入影片、圖片或動畫並設為來源（不會自動播放）；kind 省略時依副檔名判斷
+   */
+  async openUrl(src: string, kind?: PlaylistItem['kind']): Promise<void> {
+    this.attachSource(await this.createSourceFromUrl(src, kind));
+  }
+
+  /**
+   * 由檔案（上傳、拖放、貼上）載入並設為來源；以 object URL 讀取，不需把整個檔案轉成 base64
+   * object URL 在換來源或 destroy() 時釋放
+   */
+  async openFile(file: Blob): Promise<void> {
+    const kind = kindFromMimeType(file.type) ?? (file instanceof File && file.name ? guessPlaylistItemKind(file.name) : null);
+    if (!kind) throw this.fail('UNSUPPORTED_FORMAT', `不支援的檔案類型: ${file.type || '未知'}`);
+    // 動畫直接解碼 Blob，不需要網址
+    if (kind === 'animation') {
+      this.attachSource(new FramesSource(await this.loadAnimation(file), true));
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    let source: FrameSource;
+    try {
+      source = await this.createSourceFromUrl(url, kind);
+    } catch (err) {
+      URL.revokeObjectURL(url);
+      throw err;
+    }
+    this.attachSource(source);
+    this.objectUrl = url;
+  }
+
   /**
    * 設定目前要處理的影片
    */
   setVideo(video: HTMLVideoElement) {
-    this.currentVideo = video;
-    this.canvas.width = video.videoWidth;
-    this.canvas.height = video.videoHeight;
+    this.attachSource(new VideoSource(video));
+  }
+
+  /**
+   * 設定靜態圖片、ImageBitmap 或 canvas；canvas 在播放時會持續重新轉換
+   */
+  setImage(image: CanvasImageSource) {
+    this.attachSource(createFrameSource(image));
+  }
+
+  /**
+   * 設定動畫幀；owned 為 true 時換來源或 destroy() 會釋放這些幀
+   */
+  setFrames(frames: AnimationFrame[], owned = false) {
+    this.attachSource(new FramesSource(frames, owned));
+  }
+
+  /**
+   * 依輸入型別設定來源（MediaStream 會先等到可以取得尺寸）
+   */
+  async setSource(input: FrameSourceInput | FrameSource): Promise<void> {
+    if (input instanceof MediaStream) {
+      this.setVideo(await this.loadStream(input));
+    } else if (input instanceof FrameSource) {
+      this.attachSource(input);
+    } else {
+      this.attachSource(createFrameSource(input));
+    }
+  }
+
+  /**
+   * 目前來源的種類（未設定時為 null）
+   */
+  getSourceKind(): FrameSourceKind | null {
+    return this.source?.kind ?? null;
+  }
+
+  /**
+   * 取得目前來源
+   */
+  getSource(): FrameSource | null {
+    return this.source;
+  }
+
+  /**
+   * 換上新來源：停止舊來源、重設統計並轉送播放事件
+   */
+  protected attachSource(source: FrameSource) {
+    this.stopRendering();
+    this.detachSource?.();
+    if (this.source && this.source !== source) {
+      this.source.pause();
+      this.source.destroy();
+      this.revokeObjectUrl();
+    }
+    this.source = source;
+    this.canvas.width = source.width;
+    this.canvas.height = source.height;
+    this.frameNumber = 0;
+    this.droppedFrames = 0;
+    this.skippedFrames = 0;
+    this.lastFrameIndex = -1;
+    this.statsWindow = { start: 0, frames: 0, fps: 0 };
+    source.setLoop(this.shouldSourceLoop(source));
+    source.setPlaybackRate(this.playbackRate);
+    source.setAudio(this.muted, this.volume);
+    this.applyTargetSize();
+
+    const offs = SOURCE_EVENTS.map((type) => source.on(type, (e) => this.emit(type, e)));
+    offs.push(source.on('ended', () => this.handleSourceEnded(source)));
+    this.detachSource = () => {
+      offs.forEach((off) => off());
+      this.detachSource = null;
+    };
+    this.emit('loaded', { width: source.width, height: source.height, duration: this.getDuration() });
+  }
+
+  /**
+   * 設定正方形取樣間距（最小為 1），並取消個別的 stepX / stepY 與目標欄列數
+   */
+  setStep(n: number) {
+    this.convertOptions.step = Math.max(1, Math.floor(n));
+    this.convertOptions.stepX = undefined;
+    this.convertOptions.stepY = undefined;
+    this.targetSize = null;
+  }
+
+  /**
+   * 個別設定水平/垂直取樣間距；y 省略時依 charAspect 推算
+   */
+  setCellSize(x: number, y?: number) {
+    this.convertOptions.stepX = Math.max(1, x);
+    this.convertOptions.stepY = y === undefined ? undefined : Math.max(1, y);
+    this.targetSize = null;
+  }
+
+  /**
+   * 設定字元長寬比（字元寬 / 行高），用來補償非正方形的字元
+   */
+  setCharAspect(aspect: number | undefined) {
+    this.convertOptions.charAspect = aspect;
+    this.applyTargetSize();
+  }
+
+  /**
+   * 以目標欄數 x 列數決定取樣間距，保持來源長寬比；rows 為 0 時只限制欄數
+   * 之後換片或改字元長寬比時會自動重新計算，呼叫 setStep / setCellSize 即取消
+   */
+  setTargetSize(cols: number, rows = 0) {
+    this.targetSize = { cols: Math.max(1, cols), rows: Math.max(0, rows) };
+    this.applyTargetSize();
+  }
+
+  /**
+   * 取得目前實際使用的取樣間距
+   */
+  getCellSize(): CellSize {
+    return resolveCellSize(this.convertOptions);
+  }
+
+  /**
+   * 依目標欄列數與目前來源尺寸重新計算取樣間距
+   */
+  protected applyTargetSize() {
+    const { width, height } = this.canvas;
+    if (!this.targetSize || !width || !height) return;
+    const size = fitCellSize(width, height, this.targetSize.cols, this.targetSize.rows, this.convertOptions);
+    this.convertOptions.stepX = size.x;
+    this.convertOptions.stepY = size.y;
+  }
+
+  /**
+   * 更換字元集（由暗到亮），亮部門檻改用新字元集的預設值
+   * 字元集會隨每次轉換請求送進 worker，播放中下一幀即套用
+   */
+  setChars(chars: string) {
+    splitCharset(chars);
+    this.convertOptions.chars = chars;
+    this.convertOptions.threshold = defaultThreshold(chars);
+    this.ditherState = createDitherState();
+  }
+
+  /**
+   * 設定是否反轉亮度
+   */
+  setInvert(v: boolean) {
+    this.convertOptions.invert = !!v;
   }
 
   /**
-   * 播放影片並開始 ASCII 渲染
+   * 調整亮度模型與色調（播放中也可即時套用）
    */
-  play(onFrame?: (frame: string[][]) => void) {
-    if (!this.currentVideo) {
-      throw new Error('No video loaded. Call setVideo() first.');
+  setTone(tone: Partial<ToneOptions>) {
+    for (const key of Object.keys(tone) as (keyof ToneOptions)[]) {
+      if (tone[key] !== undefined) {
+        (this.convertOptions as Record<keyof ToneOptions, unknown>)[key] = tone[key];
+      }
     }
-    
+  }
+
+  /**
+   * 取得目前的色調設定
+   */
+  getTone(): ToneOptions {
+    const { luminance, brightness, contrast, gamma, autoLevels } = { ...DEFAULT_TONE, ...this.convertOptions };
+    return { luminance, brightness, contrast, gamma, autoLevels };
+  }
+
+  /**
+   * 切換彩色模式與調色盤
+   */
+  setColorMode(color: boolean, palette?: ColorPalette) {
+    this.convertOptions.color = color;
+    if (palette) this.convertOptions.palette = palette;
+    if (!color) this.colors = null;
+  }
+
+  /**
+   * 切換抖動演算法（strength 只影響誤差擴散）
+   */
+  setDither(mode: DitherMode, strength?: number) {
+    this.convertOptions.dither = mode;
+    if (strength !== undefined) this.convertOptions.ditherStrength = strength;
+    this.ditherState = createDitherState();
+  }
+
+  /**
+   * 切換輸出模式（ascii / braille / halfblock）
+   */
+  setRenderMode(mode: RenderMode) {
+    this.convertOptions.renderMode = mode;
+    this.ditherState = createDitherState();
+    this.applyTargetSize();
+  }
+
+  /**
+   * 設定點字與半格模式各自的門檻（0~255）
+   */
+  setSubcellThresholds(thresholds: { braille?: number; halfBlock?: number }) {
+    if (thresholds.braille !== undefined) this.convertOptions.brailleThreshold = thresholds.braille;
+    if (thresholds.halfBlock !== undefined) this.convertOptions.halfBlockThreshold = thresholds.halfBlock;
+  }
+
+  /**
+   * 設定邊緣模式；threshold 與 blend 皆為 0~1
+   */
+  setEdges(edges: { enabled?: boolean; threshold?: number; blend?: number }) {
+    if (edges.enabled !== undefined) this.convertOptions.edges = edges.enabled;
+    if (edges.threshold !== undefined) this.convertOptions.edgeThreshold = edges.threshold;
+    if (edges.blend !== undefined) this.convertOptions.edgeBlend = edges.blend;
+  }
+
+  /**
+   * 設定每秒最多轉換的幀數，0 為不限制
+   */
+  setMaxFps(fps: number) {
+    this.maxFps = Math.max(0, fps);
+  }
+
+  /**
+   * 開關自適應品質；關閉時取樣間距回到原本設定
+   */
+  setAdaptive(adaptive: boolean, options: { frameBudgetMs?: number; maxScale?: number } = {}) {
+    this.adaptive = adaptive;
+    if (options.frameBudgetMs !== undefined) this.frameBudgetMs = Math.max(1, options.frameBudgetMs);
+    if (options.maxScale !== undefined) this.maxAdaptiveScale = Math.max(1, options.maxScale);
+    this.adaptCounter = 0;
+    if (!adaptive) this.adaptiveScale = 1;
+    else this.adaptiveScale = Math.min(this.adaptiveScale, this.maxAdaptiveScale);
+  }
+
+  /**
+   * 取得目前的播放效能統計
+   */
+  getRenderStats(): RenderStats {
+    const size = this.getEffectiveCellSize();
+    return {
+      fps: this.statsWindow.fps,
+      convertMs: this.convertMsAvg,
+      droppedFrames: this.droppedFrames,
+      skippedFrames: this.skippedFrames,
+      adaptiveScale: this.adaptiveScale,
+      cellSize: size,
+      clock: this.source?.frameClock ?? 'animation-frame',
+    };
+  }
+
+  /**
+   * 是否正以 Worker 模式轉換
+   */
+  isUsingWorker(): boolean {
+    return this.worker !== null;
+  }
+
+  /**
+   * 播放並開始 ASCII 渲染；靜態圖片只轉換一次
+   * format 為 'compact' 時 onFrame 收到精簡幀，不會另外建立 string[][]
+   */
+  play(onFrame?: AsciiFrameCallback, format?: 'array'): void;
+  play(onFrame: CompactFrameCallback, format: 'compact'): void;
+  play(onFrame?: AsciiFrameCallback | CompactFrameCallback, format: FrameFormat = 'array') {
+    const source = this.requireSource();
     this.onFrameCallback = onFrame || null;
-    this.currentVideo.play();
+    this.frameFormat = format;
+    this.startPlayback(source);
+  }
+
+  /**
+   * 以目前的 onFrame 設定開始播放
+   */
+  private startPlayback(source: FrameSource) {
+    if (source.duration === 0) {
+      this.renderCurrentFrame();
+      return;
+    }
+    source.play()
+      .catch((err) => {
+        // 自動播放政策通常只擋有聲播放，改為靜音後再試一次
+        if (this.muted || !source.hasAudio || !isAutoplayBlocked(err) || this.source !== source) throw err;
+        this.setMuted(true);
+        this.emit('autoplayblocked', { currentTime: source.currentTime });
+        return source.play().then(() => {
+          // 第一次 play() 失敗時渲染循環已因暫停而結束
+          if (this.source === source) this.startRendering();
+        });
+      })
+      .catch((err) => {
+        this.fail('PLAY_REJECTED', '瀏覽器拒絕播放影片', err);
+      });
     this.startRendering();
   }
 
@@ -85,90 +616,598 @@ export class VideoAsciiPlayer {
    * 暫停播放
    */
   pause() {
-    this.currentVideo?.pause();
+    this.source?.pause();
     this.stopRendering();
   }
 
+  /**
+   * 跳到指定時間（秒，會限制在影片範圍內）
+   * 跳轉完成後若為暫停狀態，會重新轉換並送出該時間點的畫面
+   */
+  async seek(time: number): Promise<void> {
+    const source = this.requireSource();
+    const token = ++this.seekToken;
+    await source.seek(time);
+    // 連續跳轉時只重畫最後一次
+    if (token === this.seekToken && this.source === source && source.paused) this.renderCurrentFrame();
+  }
+
+  /**
+   * 暫停並前進或後退 delta 幀（動畫幀依實際幀邊界，影片依 frameRate 換算時間）
+   */
+  async stepFrame(delta = 1): Promise<void> {
+    const source = this.requireSource();
+    if (!source.paused) this.pause();
+    return this.seek(source.stepTime(delta, this.frameRate));
+  }
+
+  /**
+   * 設定播放速度（瀏覽器支援範圍約 0.0625 ~ 16）
+   */
+  setPlaybackRate(rate: number) {
+    this.playbackRate = clampPlaybackRate(rate);
+    this.source?.setPlaybackRate(this.playbackRate);
+  }
+
+  getPlaybackRate(): number {
+    return this.playbackRate;
+  }
+
+  /**
+   * 設定播完後是否從頭重播；不重播時播完會觸發 ended 事件
+   */
+  setLoop(loop: boolean) {
+    this.loop = loop;
+    if (this.source) this.source.setLoop(this.shouldSourceLoop(this.source));
+  }
+
+  getLoop(): boolean {
+    return this.loop;
+  }
+
+  /**
+   * 設定靜音；取消靜音最好在使用者操作（點擊等）中呼叫，否則瀏覽器可能暫停播放
+   */
+  setMuted(muted: boolean) {
+    if (muted === this.muted) return;
+    this.muted = muted;
+    this.applyAudio();
+  }
+
+  isMuted(): boolean {
+    return this.muted;
+  }
+
+  /**
+   * 設定音量（0~1）
+   */
+  setVolume(volume: number) {
+    const v = clampVolume(volume);
+    if (v === this.volume) return;
+    this.volume = v;
+    this.applyAudio();
+  }
+
+  getVolume(): number {
+    return this.volume;
+  }
+
+  /**
+   * 目前來源是否可能有聲音
+   */
+  hasAudio(): boolean {
+    return this.source?.hasAudio ?? false;
+  }
+
+  private applyAudio() {
+    this.source?.setAudio(this.muted, this.volume);
+    this.emit('volumechange', { muted: this.muted, volume: this.volume });
+  }
+
+  /**
+   * 設定 stepFrame 使用的影格率
+   */
+  setFrameRate(fps: number) {
+    this.frameRate = Math.max(1, fps);
+  }
+
+  /**
+   * 目前播放時間（秒）
+   */
+  getCurrentTime(): number {
+    return this.source?.currentTime ?? 0;
+  }
+
+  /**
+   * 來源長度（秒）；未載入、靜態圖或即時來源為 0
+   */
+  getDuration(): number {
+    const duration = this.source?.duration ?? 0;
+    return Number.isFinite(duration) ? duration : 0;
+  }
+
   /**
    * 停止並重置
    */
   stop() {
-    if (this.currentVideo) {
-      this.currentVideo.pause();
-      this.currentVideo.currentTime = 0;
+    if (this.source) {
+      this.source.pause();
+      this.source.seek(0);
     }
     this.stopRendering();
   }
 
+  /**
+   * 設定播放清單（不會自動開始，呼叫 playAt() 或 next() 播放）
+   */
+  setPlaylist(items: PlaylistItem[], options: PlaylistOptions = {}) {
+    if (options.autoAdvance !== undefined) this.autoAdvance = options.autoAdvance;
+    if (options.shuffle !== undefined) this.playlist.setShuffle(options.shuffle);
+    this.playlist.set(items);
+    this.playlistToken++;
+    this.playlistSource = null;
+    this.updateSourceLoop();
+  }
+
+  /**
+   * 加到播放清單最後
+   */
+  enqueue(...items: PlaylistItem[]) {
+    this.playlist.enqueue(...items);
+    this.updateSourceLoop();
+  }
+
+  /**
+   * 載入並播放清單中的第 index 項（沿用上次 play() 的 onFrame 與格式）
+   * 快速連續切換時只有最後一次會生效；載入成功後才換目前項目，失敗時清單仍指向正在播放的項目
+   */
+  async playAt(index: number): Promise<void> {
+    const item = this.playlist.getItems()[index];
+    if (!item) throw new VideoAsciiPlayerError('NOT_LOADED', `Playlist has no item at index ${index}.`);
+    const token = ++this.playlistToken;
+    const source = await this.createSourceFromUrl(item.src, item.kind);
+    if (token !== this.playlistToken) {
+      source.destroy();
+      return;
+    }
+    this.playlist.select(index);
+    this.attachSource(source);
+    this.playlistSource = source;
+    source.setLoop(this.shouldSourceLoop(source));
+    this.emit('playlistitem', { index, item });
+    this.startPlayback(source);
+  }
+
+  /**
+   * 播放下一項；已在最後時依 loop 決定是否回到開頭，不回到開頭則回傳 false
+   */
+  async next(): Promise<boolean> {
+    const previous = this.playlist.currentIndex;
+    return this.advance(previous, this.playlist.next(this.loop));
+  }
+
+  /**
+   * 播放上一項；已在最前時依 loop 決定是否跳到最後，不跳則回傳 false
+   */
+  async previous(): Promise<boolean> {
+    const previous = this.playlist.currentIndex;
+    return this.advance(previous, this.playlist.previous(this.loop));
+  }
+
+  /**
+   * 開關隨機順序（目前項目不變）
+   */
+  setShuffle(shuffle: boolean) {
+    this.playlist.setShuffle(shuffle);
+  }
+
+  /**
+   * 設定播完是否自動換下一項
+   */
+  setAutoAdvance(autoAdvance: boolean) {
+    this.autoAdvance = autoAdvance;
+    this.updateSourceLoop();
+  }
+
+  /**
+   * 取得播放清單目前狀態
+   */
+  getPlaylist(): PlaylistState {
+    return {
+      items: this.playlist.getItems(),
+      order: this.playlist.getOrder(),
+      index: this.playlist.currentIndex,
+      shuffle: this.playlist.isShuffled(),
+      autoAdvance: this.autoAdvance,
+    };
+  }
+
+  /**
+   * 播放清單已移到的項目；載入失敗時退回 previous（仍在播放的項目）
+   */
+  private async advance(previous: number, item: PlaylistItem | null): Promise<boolean> {
+    if (!item) return false;
+    const index = this.playlist.currentIndex;
+    try {
+      await this.playAt(index);
+    } catch (err) {
+      if (this.playlist.currentIndex === index) this.playlist.select(previous);
+      throw err;
+    }
+    return true;
+  }
+
+  /**
+   * 依種類由網址載入來源
+   */
+  private async createSourceFromUrl(src: string, kind = guessPlaylistItemKind(src)): Promise<FrameSource> {
+    if (kind === 'image') return createFrameSource(await this.loadImage(src));
+    if (kind === 'animation') return new FramesSource(await this.loadAnimation(src), true);
+    return new VideoSource(await this.loadVideo(src));
+  }
+
+  private revokeObjectUrl() {
+    if (this.objectUrl) URL.revokeObjectURL(this.objectUrl);
+    this.objectUrl = null;
+  }
+
+  /**
+   * 清單中的來源在自動換下一項時不重播，播完才會觸發 ended
+   */
+  private shouldSourceLoop(source: FrameSource): boolean {
+    if (source !== this.playlistSource) return this.loop;
+    return this.loop && !(this.autoAdvance && this.playlist.length > 1);
+  }
+
+  private updateSourceLoop() {
+    if (this.source) this.source.setLoop(this.shouldSourceLoop(this.source));
+  }
+
+  /**
+   * 清單中的來源播完時換下一項；載入錯誤已經由 error 事件送出
+   */
+  private handleSourceEnded(source: FrameSource) {
+    if (source !== this.playlistSource || !this.autoAdvance || this.playlist.length < 2) return;
+    this.next().catch(() => {});
+  }
+
+  /**
+   * 取得目前來源，未設定時拋出 NOT_LOADED
+   */
+  private requireSource(): FrameSource {
+    if (!this.source) {
+      throw new VideoAsciiPlayerError('NOT_LOADED', 'No source loaded. Call setVideo() or setSource() first.');
+    }
+    return this.source;
+  }
+
   /**
    * 開始渲染循環
    */
   private startRendering() {
-    const render = () => {
-      if (this.currentVideo && !this.currentVideo.paused) {
-        this.updateAsciiData();
-        if (this.onFrameCallback) {
-          this.onFrameCallback(this.data);
-        }
-        this.animationFrameId = requestAnimationFrame(render);
-      }
+    const source = this.source;
+    if (!source) return;
+    this.stopRendering();
+    // 影片有 requestVideoFrameCallback 時只在產生新幀時轉換，否則每個動畫幀檢查一次
+    this.lastPresentedFrames = 0;
+    this.lastFrameIndex = -1;
+    // 暫停的時間不算進 fps
+    this.statsWindow = { ...this.statsWindow, start: 0, frames: 0 };
+    const tick = (now: number, metadata?: VideoFrameCallbackMetadata) => {
+      this.frameClock = null;
+      if (this.source !== source || source.paused) return;
+      this.onSourceFrame(source, now, metadata);
+      this.frameClock = { cancel: source.requestFrame(tick) };
     };
-    render();
+    tick(performance.now());
   }
 
   /**
    * 停止渲染循環
    */
   private stopRendering() {
-    if (this.animationFrameId !== null) {
-      cancelAnimationFrame(this.animationFrameId);
-      this.animationFrameId = null;
+    this.frameClock?.cancel();
+    this.frameClock = null;
+  }
+
+  /**
+   * 每個影片幀（或動畫幀）的處理：統計丟幀、略過沒變的畫面、套用 FPS 上限後轉換
+   */
+  private onSourceFrame(source: FrameSource, now: number, metadata?: VideoFrameCallbackMetadata) {
+    if (metadata) {
+      // presentedFrames 跳號表示兩次回呼之間有幀沒被轉換
+      if (this.lastPresentedFrames > 0) {
+        this.droppedFrames += Math.max(0, metadata.presentedFrames - this.lastPresentedFrames - 1);
+      }
+      this.lastPresentedFrames = metadata.presentedFrames;
+    }
+    const index = source.frameIndex();
+    if (index >= 0 && index === this.lastFrameIndex) return;
+    // 容許 1ms 誤差，避免回呼時間的抖動讓 30fps 上限變成 15fps
+    if (this.maxFps > 0 && now - this.lastConvertAt < 1000 / this.maxFps - 1) {
+      this.skippedFrames++;
+      return;
+    }
+    if (this.worker) {
+      // 上一幀還在 Worker 中處理時直接略過，避免堆積
+      if (this.workerBusy) {
+        this.droppedFrames++;
+        return;
+      }
+      this.lastConvertAt = now;
+      this.lastFrameIndex = index;
+      this.postFrameToWorker(source.image);
+      return;
+    }
+    this.lastConvertAt = now;
+    this.lastFrameIndex = index;
+    const start = performance.now();
+    try {
+      this.updateAsciiData();
+    } catch (err) {
+      this.handleConvertError(err, 'Failed to convert frame');
+      return;
     }
+    this.recordConvertTime(performance.now() - start);
+    this.emitFrame();
   }
 
   /**
-   * 取得目前 ASCII 幀資料
+   * 記錄轉換耗時；自適應模式下依時間預算調整取樣間距倍率
    */
-  getAsciiFrame(): string[][] {
-    if (!this.currentVideo) {
-      throw new Error('No video loaded. Call setVideo() first.');
+  private recordConvertTime(ms: number) {
+    this.convertMsAvg = this.convertMsAvg > 0 ? this.convertMsAvg * 0.8 + ms * 0.2 : ms;
+    if (!this.adaptive || ++this.adaptCounter < ADAPT_INTERVAL) return;
+    this.adaptCounter = 0;
+    // 耗時約與格子數成正比，縮小倍率的門檻設在預算一半，避免來回震盪
+    if (this.convertMsAvg > this.frameBudgetMs) {
+      this.adaptiveScale = Math.min(this.maxAdaptiveScale, this.adaptiveScale + ADAPT_STEP);
+    } else if (this.convertMsAvg < this.frameBudgetMs * 0.5) {
+      this.adaptiveScale = Math.max(1, this.adaptiveScale - ADAPT_STEP);
     }
-    this.updateAsciiData();
-    return this.data;
   }
 
   /**
-   * 將目前影片幀轉成 ASCII 字元陣列
-   */
-  private updateAsciiData() {
-    const video = this.currentVideo;
-    if (!video) return;
-    const { videoWidth: w, videoHeight: h } = video;
-    this.ctx.drawImage(video, 0, 0, w, h);
-    const img = this.ctx.getImageData(0, 0, w, h).data;
-    const arr: string[][] = [];
-    for (let y = 0; y < h; y += this.step) {
-      const row: string[] = [];
-      for (let x = 0; x < w; x += this.step) {
-        let sum = 0;
-        for (let dy = 0; dy < this.step; dy++) {
-          for (let dx = 0; dx < this.step; dx++) {
-            const py = y + dy;
-            const px = x + dx;
-            if (py < h && px < w) {
-              const idx = (py * w + px) * 4;
-              sum += img[idx]; // 只取紅色通道
-            }
-          }
+   * 套用自適應倍率後實際使用的取樣間距
+   */
+  private getEffectiveCellSize(): CellSize {
+    const size = resolveCellSize(this.convertOptions);
+    return { x: size.x * this.adaptiveScale, y: size.y * this.adaptiveScale };
+  }
+
+  /**
+   * 轉換時使用的選項（自適應倍率不寫回 convertOptions，關閉後即恢復原設定）
+   */
+  private getConvertOptions(): AsciiConvertOptions {
+    if (this.adaptiveScale === 1) return this.convertOptions;
+    const size = this.getEffectiveCellSize();
+    return { ...this.convertOptions, stepX: size.x, stepY: size.y };
+  }
+
+  /**
+   * 建立錯誤並發出 error 事件；沒有訂閱者時寫入 console
+   */
+  protected fail(code: PlayerErrorCode, message: string, cause?: unknown): VideoAsciiPlayerError {
+    return this.report(new VideoAsciiPlayerError(code, message, cause));
+  }
+
+  /**
+   * 發出 error 事件；沒有訂閱者時寫入 console
+   */
+  protected report(error: VideoAsciiPlayerError): VideoAsciiPlayerError {
+    if (this.hasListeners('error')) this.emit('error', { error });
+    else console.error(error, error.cause);
+    return error;
+  }
+
+  /**
+   * 轉換失敗：來源被跨域污染時之後每一幀都會失敗，因此直接暫停
+   */
+  private handleConvertError(err: unknown, message: string) {
+    if (err instanceof VideoAsciiPlayerError && err.code === 'CORS_TAINTED') {
+      this.pause();
+      this.report(err);
+    } else {
+      this.fail('CONVERT_FAILED', message, err);
+    }
+  }
+
+  /**
+   * 建立轉換用的 Worker
+   */
+  private startWorker() {
+    const worker = new Worker(new URL('./asciiWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<AsciiWorkerResponse>) => this.handleWorkerMessage(e.data);
+    worker.onerror = (err) => {
+      this.fail('WORKER_FAILED', 'ASCII worker error, falling back to main thread', err);
+      this.stopWorker();
+    };
+    this.worker = worker;
+  }
+
+  /**
+   * 結束 Worker
+   */
+  private stopWorker() {
+    this.worker?.terminate();
+    this.worker = null;
+    this.workerBusy = false;
+  }
+
+  /**
+   * 擷取目前畫面為 ImageBitmap 並交給 Worker 轉換
+   */
+  private postFrameToWorker(image: CanvasImageSource) {
+    this.workerBusy = true;
+    this.workerPostedAt = performance.now();
+    const id = ++this.workerRequestId;
+    createImageBitmap(image)
+      .then((bitmap) => {
+        if (!this.worker) {
+          bitmap.close();
+          return;
         }
-        const avg = sum / (this.step * this.step);
-        const avg2 = avg > this.threshold ? 255 : avg;
-        const idx = Math.floor((avg2 / 255) * (this.chars.length - 1));
-        row.push(this.chars[idx]);
+        const req: AsciiWorkerRequest = { id, bitmap, options: { ...this.getConvertOptions() } };
+        this.worker.postMessage(req, [bitmap]);
+      })
+      .catch((err) => {
+        this.workerBusy = false;
+        this.handleConvertError(isSecurityError(err) ? taintedError(err) : err, 'createImageBitmap failed');
+      });
+  }
+
+  private handleWorkerMessage(res: AsciiWorkerResponse) {
+    // 只處理最新請求的回應，被取代的請求不論成功或失敗都忽略
+    if (res.id !== this.workerRequestId) return;
+    this.workerBusy = false;
+    if (res.error !== undefined) {
+      const err = res.errorName === 'SecurityError' ? taintedError(res.error) : new Error(res.error);
+      this.handleConvertError(err, `ASCII worker conversion failed: ${res.error}`);
+      return;
+    }
+    // 停止播放後不再送出
+    if (!this.isPlaying()) return;
+    this.recordConvertTime(performance.now() - this.workerPostedAt);
+    this.setFrame(res.result);
+    this.emitFrame();
+  }
+
+  /**
+   * 暫停時重新轉換目前畫面並送出
+   */
+  private renderCurrentFrame() {
+    try {
+      this.updateAsciiData();
+      this.emitFrame();
+    } catch (err) {
+      this.handleConvertError(err, 'Failed to render the current frame');
+    }
+  }
+
+  /**
+   * 累計最近一秒的轉換幀數，每秒送出一次 stats 事件
+   */
+  private updateStatsWindow() {
+    const now = performance.now();
+    const w = this.statsWindow;
+    if (w.start === 0) w.start = now;
+    w.frames++;
+    const elapsed = now - w.start;
+    if (elapsed < 1000) return;
+    w.fps = (w.frames * 1000) / elapsed;
+    w.start = now;
+    w.frames = 0;
+    this.emit('stats', this.getRenderStats());
+  }
+
+  /**
+   * 依播放時指定的格式把最新一幀交給 onFrame
+   */
+  private emitFrame() {
+    const frame = this.compactFrame;
+    if (!frame) return;
+    this.frameNumber++;
+    this.updateStatsWindow();
+    const callback = this.onFrameCallback;
+    if (callback) {
+      if (this.frameFormat === 'compact') {
+        (callback as CompactFrameCallback)(frame);
+      } else {
+        (callback as AsciiFrameCallback)(this.data, this.colors);
       }
-      arr.push(row);
     }
-    this.data = arr;
+    this.emit('frame', {
+      frame,
+      colors: this.colors,
+      timestamp: this.getCurrentTime(),
+      frameNumber: this.frameNumber,
+    });
+  }
+
+  /**
+   * 取得目前 ASCII 幀資料
+   */
+  getAsciiFrame(): AsciiFrame {
+    this.requireSource();
+    this.updateAsciiData();
+    return this.data;
+  }
+
+  /**
+   * 重新轉換來源目前的畫面，回傳精簡格式（不產生舊格式 string[][]）
+   */
+  refreshCompactFrame(): CompactFrame | null {
+    this.requireSource();
+    this.updateAsciiData();
+    return this.compactFrame;
+  }
+
+  /**
+   * 取得最近一幀的精簡格式（尚未轉換過時為 null）
+   */
+  getCompactFrame(): CompactFrame | null {
+    return this.compactFrame;
+  }
+
+  /**
+   * 取得最近一幀的每格顏色（未開啟彩色模式時為 null）
+   */
+  getColors(): CellColors | null {
+    return this.colors;
+  }
+
+  /**
+   * 將來源目前畫面畫到 canvas 並轉成 ASCII 字元陣列
+   * 來源尺寸改變時（串流換解析度、canvas 被調整大小）一併調整
+   */
+  protected updateAsciiData() {
+    const source = this.source;
+    if (!source) return;
+    const { width: w, height: h } = source;
+    if (!w || !h) return;
+    if (w !== this.canvas.width || h !== this.canvas.height) {
+      this.canvas.width = w;
+      this.canvas.height = h;
+      this.applyTargetSize();
+    }
+    this.ctx.drawImage(source.image, 0, 0, w, h);
+    this.computeAsciiFromCanvas();
+  }
+
+  /**
+   * 以目前 canvas 內容計算 ASCII 字元陣列
+   */
+  protected computeAsciiFromCanvas() {
+    const { width: w, height: h } = this.canvas;
+    let pixels: ImageData;
+    try {
+      pixels = this.ctx.getImageData(0, 0, w, h);
+    } catch (err) {
+      if (isSecurityError(err)) throw taintedError(err);
+      throw err;
+    }
+    this.setFrame(convertPixelsCompact(pixels, this.getConvertOptions(), this.ditherState));
+  }
+
+  /**
+   * 保存最新一幀；舊格式等到需要時才轉換
+   */
+  protected setFrame(frame: CompactFrame | null) {
+    const prev = this.compactFrame;
+    this.compactFrame = frame;
+    this.colors = frame?.colors ?? null;
+    this.legacyFrame = null;
+    if (frame && (!prev || prev.cols !== frame.cols || prev.rows !== frame.rows)) {
+      this.emit('resize', { cols: frame.cols, rows: frame.rows, width: this.canvas.width, height: this.canvas.height });
+    }
+  }
+
+  /**
+   * 最新一幀的舊格式 string[][]
+   */
+  protected get data(): AsciiFrame {
+    if (!this.legacyFrame) this.legacyFrame = this.compactFrame ? toAsciiFrame(this.compactFrame) : [];
+    return this.legacyFrame;
   }
 
   /**
@@ -179,28 +1218,67 @@ export class VideoAsciiPlayer {
   }
 
   /**
-   * 取得目前影片
+   * 取得目前影片（來源不是影片或串流時為 null）
    */
   getVideo(): HTMLVideoElement | null {
-    return this.currentVideo;
+    return this.source instanceof VideoSource ? this.source.video : null;
   }
 
   /**
    * 是否正在播放
    */
   isPlaying(): boolean {
-    return this.currentVideo ? !this.currentVideo.paused : false;
+    return this.source ? !this.source.paused : false;
   }
 
   /**
    * 清理資源
    */
   destroy() {
+    this.playlistToken++;
+    this.playlistSource = null;
+    this.playlist.clear();
     this.stop();
-    this.currentVideo = null;
+    this.detachSource?.();
+    this.removeAllListeners();
+    this.stopWorker();
+    this.source?.destroy();
+    this.source = null;
+    this.revokeObjectUrl();
     this.canvas.width = 0;
     this.canvas.height = 0;
-    this.data = [];
+    this.setFrame(null);
     this.onFrameCallback = null;
   }
 }
+
+// 跨來源網址（data: / blob: 以外）需要伺服器允許 CORS 才能讀取像素
+function isRemoteUrl(src: string): boolean {
+  return !src.startsWith('data:') && !src.startsWith('blob:');
+}
+
+function isSecurityError(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'SecurityError';
+}
+
+function taintedError(cause: unknown): VideoAsciiPlayerError {
+  return new VideoAsciiPlayerError(
+    'CORS_TAINTED',
+    '無法讀取來源的像素：跨來源的影片或圖片必須由伺服器允許 CORS（Access-Control-Allow-Origin）',
+    cause,
+  );
+}
+
+// play() 因自動播放政策被拒絕
+function isAutoplayBlocked(err: unknown): boolean {
+  return err instanceof DOMException && err.name === 'NotAllowedError';
+}
+
+function clampVolume(volume: number): number {
+  return Math.min(1, Math.max(0, volume));
+}
+
+// HTMLMediaElement 允許的播放速度範圍
+function clampPlaybackRate(rate: number): number {
+  return Math.min(16, Math.max(0.0625, rate));
+}
@@ -0,0 +1,111 @@
+// ansiPalette.ts
+// 終端機調色盤：16 色、256 色與 truecolor 的量化與索引轉換
+
+export type ColorPalette = 'truecolor' | 'ansi256' | 'ansi16';
+
+export type Rgb = [number, number, number];
+
+// xterm 預設的 16 色
+export const ANSI16_COLORS: readonly Rgb[] = [
+  [0, 0, 0], [205, 0, 0], [0, 205, 0], [205, 205, 0],
+  [0, 0, 238], [205, 0, 205], [0, 205, 205], [229, 229, 229],
+  [127, 127, 127], [255, 0, 0], [0, 255, 0], [255, 255, 0],
+  [92, 92, 255], [255, 0, 255], [0, 255, 255], [255, 255, 255],
+];
+
+// 256 色中 6x6x6 色塊每個通道的實際數值
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+function distSq(r: number, g: number, b: number, c: Rgb): number {
+  const dr = r - c[0];
+  const dg = g - c[1];
+  const db = b - c[2];
+  return dr * dr + dg * dg + db * db;
+}
+
+function nearestCubeLevel(v: number): number {
+  let best = 0;
+  for (let i = 1; i < CUBE_LEVELS.length; i++) {
+    if (Math.abs(CUBE_LEVELS[i] - v) < Math.abs(CUBE_LEVELS[best] - v)) best = i;
+  }
+  return best;
+}
+
+/**
+ * 找出最接近的 16 色索引（0~15）
+ */
+export function rgbToAnsi16(r: number, g: number, b: number): number {
+  let best = 0;
+  let bestDist = Infinity;
+  for (let i = 0; i < ANSI16_COLORS.length; i++) {
+    const d = distSq(r, g, b, ANSI16_COLORS[i]);
+    if (d < bestDist) {
+      bestDist = d;
+      best = i;
+    }
+  }
+  return best;
+}
+
+/**
+ * 找出最接近的 256 色索引（只使用 16~255 的色塊與灰階）
+ */
+export function rgbToAnsi256(r: number, g: number, b: number): number {
+  const ri = nearestCubeLevel(r);
+  const gi = nearestCubeLevel(g);
+  const bi = nearestCubeLevel(b);
+  const cubeIdx = 16 + 36 * ri + 6 * gi + bi;
+  const cubeDist = distSq(r, g, b, [CUBE_LEVELS[ri], CUBE_LEVELS[gi], CUBE_LEVELS[bi]]);
+
+  const avg = (r + g + b) / 3;
+  const grayStep = Math.max(0, Math.min(23, Math.round((avg - 8) / 10)));
+  const grayVal = 8 + grayStep * 10;
+  const grayDist = distSq(r, g, b, [grayVal, grayVal, grayVal]);
+
+  return grayDist < cubeDist ? 232 + grayStep : cubeIdx;
+}
+
+/**
+ * 256 色索引轉回 RGB
+ */
+export function ansi256ToRgb(idx: number): Rgb {
+  if (idx < 16) return [...ANSI16_COLORS[idx]] as Rgb;
+  if (idx >= 232) {
+    const v = 8 + (idx - 232) * 10;
+    return [v, v, v];
+  }
+  const n = idx - 16;
+  return [CUBE_LEVELS[Math.floor(n / 36)], CUBE_LEVELS[Math.floor(n / 6) % 6], CUBE_LEVELS[n % 6]];
+}
+
+/**
+ * 將 RGB 量化到指定調色盤可顯示的顏色
+ */
+export function quantizeRgb(r: number, g: number, b: number, palette: ColorPalette): Rgb {
+  switch (palette) {
+    case 'ansi16': return [...ANSI16_COLORS[rgbToAnsi16(r, g, b)]] as Rgb;
+    case 'ansi256': return ansi256ToRgb(rgbToAnsi256(r, g, b));
+    case 'truecolor':
+    default:
+      return [Math.round(r), Math.round(g), Math.round(b)];
+  }
+}
+
+/**
+ * 顏色的 SGR 參數（不含 ESC [ 與 m），依調色盤使用 38;2 / 38;5 / 30~37、90~97
+ * background 為 true 時輸出背景色（48;2 / 48;5 / 40~47、100~107）
+ */
+export function sgrColor(r: number, g: number, b: number, palette: ColorPalette, background = false): string {
+  switch (palette) {
+    case 'ansi16': {
+      const idx = rgbToAnsi16(r, g, b);
+      const base = idx < 8 ? (background ? 40 : 30) : (background ? 100 : 90);
+      return String(base + (idx % 8));
+    }
+    case 'ansi256':
+      return `${background ? 48 : 38};5;${rgbToAnsi256(r, g, b)}`;
+    case 'truecolor':
+    default:
+      return `${background ? 48 : 38};2;${Math.round(r)};${Math.round(g)};${Math.round(b)}`;
+  }
+}
@@ -0,0 +1,166 @@
+// asciiConverter.ts
+// 純函式的 ASCII 轉換核心：不依賴 DOM，可在主執行緒、Web Worker 或 Node 中使用
+
+import type { ColorPalette } from './ansiPalette';
+import { quantizeLevels } from './dither';
+import type { DitherMode, DitherState } from './dither';
+import { quantizeRgbGrid, sampleLuminanceGrid, sampleRgbGrid } from './sampling';
+import type { CellColors, RawPixels } from './sampling';
+import { applyThreshold, applyTone } from './tone';
+import type { ToneOptions } from './tone';
+import { convertBraille, convertHalfBlock } from './subcellModes';
+import { resolveCellSize } from './cellSize';
+import type { CellSize } from './cellSize';
+import { computeEdgeField, edgeGlyph, DEFAULT_EDGE_BLEND, DEFAULT_EDGE_THRESHOLD } from './edgeGlyphs';
+import { createCompactFrame, MAX_CHARSET_SIZE, splitCharset, toAsciiFrame } from './compactFrame';
+import type { CompactFrame } from './compactFrame';
+
+export { gridSize, pixelLuminance, sampleLuminanceGrid, sampleRgbGrid } from './sampling';
+export type { CellColors, LuminanceGrid, LuminanceModel, RawPixels, RgbGrid } from './sampling';
+export { applyThreshold, applyTone, DEFAULT_TONE } from './tone';
+export type { ToneOptions } from './tone';
+export { fitCellSize, resolveCellSize, subcellSize } from './cellSize';
+export type { CellSize } from './cellSize';
+export { countRunCells, createCompactFrame, diffFrames, fromAsciiFrame, fromText, glyphAt, toAsciiFrame, toText } from './compactFrame';
+export type { CompactFrame, FrameRun } from './compactFrame';
+
+export type AsciiFrame = string[][];
+
+/**
+ * 輸出模式：一般字元、點字 (2x4)、半格方塊 (1x2)
+ */
+export type RenderMode = 'ascii' | 'braille' | 'halfblock';
+
+export interface AsciiConvertOptions extends Partial<ToneOptions> {
+  chars: string;
+  /** 正方形取樣間距；可用 stepX / stepY 或 charAspect 個別指定 */
+  step: number;
+  stepX?: number;
+  stepY?: number;
+  /** 字元寬 / 行高；未指定 stepY 時用來推算垂直間距，讓輸出不需再拉伸 */
+  charAspect?: number;
+  threshold: number;
+  invert?: boolean;
+  /** 同時輸出每格的平均 RGB */
+  color?: boolean;
+  /** 顏色量化的調色盤（預設 truecolor） */
+  palette?: ColorPalette;
+  /** 字元階層的抖動演算法（預設 none） */
+  dither?: DitherMode;
+  /** 誤差擴散強度 0~1 */
+  ditherStrength?: number;
+  /** 輸出模式（預設 ascii）；step 在點字/半格模式下為子取樣的大小 */
+  renderMode?: RenderMode;
+  /** 點字模式中點亮的亮度門檻 0~255 */
+  brailleThreshold?: number;
+  /** 單色半格模式中上墨的亮度門檻 0~255 */
+  halfBlockThreshold?: number;
+  /** 邊緣模式：在邊緣強的格子改用方向性字元 | / - \ _（僅 ascii 模式） */
+  edges?: boolean;
+  /** 邊緣強度 0~1 超過此值才使用方向字元 */
+  edgeThreshold?: number;
+  /** 未達門檻的邊緣強度混入亮度的比重 0~1，讓輪廓附近的字元較密 */
+  edgeBlend?: number;
+}
+
+/**
+ * 轉換結果；未開啟彩色模式時 colors 為 null
+ */
+export interface AsciiConvertResult {
+  frame: AsciiFrame;
+  colors: CellColors | null;
+}
+
+export const DEFAULT_CHARS = '@%#*+=-:. ';
+
+// 邊緣模式可能輸出的方向字元
+const EDGE_GLYPHS = ['|', '/', '\\', '-', '_'];
+
+/**
+ * 依字元集長度計算預設的亮部門檻
+ */
+export function defaultThreshold(chars: string): number {
+  const count = splitCharset(chars).length;
+  return Math.floor(255 * ((count - 1) / count));
+}
+
+/**
+ * 將 RGBA 像素轉成 ASCII 字元陣列
+ * ditherState 用於誤差擴散時跨幀保持穩定，由呼叫端保存
+ */
+export function convertPixelsToAscii(pixels: RawPixels, options: AsciiConvertOptions, ditherState?: DitherState): AsciiFrame {
+  return toAsciiFrame(convertAsciiGlyphs(pixels, options, ditherState));
+}
+
+/**
+ * ascii 模式：字元索引即為亮度階層；邊緣字元不在字元集中時附加在字元表後面，
+ * 字元表已滿則改用最密集的字元（索引 0）
+ */
+function convertAsciiGlyphs(pixels: RawPixels, options: AsciiConvertOptions, ditherState?: DitherState): CompactFrame {
+  const { chars, threshold, invert = false } = options;
+  const charset = splitCharset(chars);
+  const size = resolveCellSize(options);
+  const grid = sampleLuminanceGrid(pixels, size.x, size.y, options.luminance);
+  applyTone(grid.values, options);
+  applyThreshold(grid.values, threshold, invert);
+  const edges = options.edges ? computeEdgeField(pixels, size.x, size.y, options.luminance) : null;
+  const edgeThreshold = options.edgeThreshold ?? DEFAULT_EDGE_THRESHOLD;
+  if (edges) {
+    // 邊緣處往字元集的密集端（索引 0）靠
+    const blend = options.edgeBlend ?? DEFAULT_EDGE_BLEND;
+    for (let i = 0; i < grid.values.length; i++) {
+      grid.values[i] = Math.max(0, grid.values[i] - blend * edges.magnitude[i] * 255);
+    }
+  }
+  const levels = quantizeLevels(grid.values, grid.cols, grid.rows, charset.length, options.dither, {
+    strength: options.ditherStrength,
+    state: ditherState,
+  });
+  const edgeIndex = new Map<string, number>();
+  if (edges) {
+    for (const g of EDGE_GLYPHS) {
+      const i = charset.indexOf(g);
+      if (i >= 0) edgeIndex.set(g, i);
+      else edgeIndex.set(g, charset.length < MAX_CHARSET_SIZE ? charset.push(g) - 1 : 0);
+    }
+  }
+  const frame = createCompactFrame(grid.cols, grid.rows, charset);
+  for (let i = 0; i < frame.glyphs.length; i++) {
+    frame.glyphs[i] = edges && edges.magnitude[i] >= edgeThreshold
+      ? edgeIndex.get(edgeGlyph(edges.angle[i], edges.centroidY[i]))!
+      : levels[i];
+  }
+  return frame;
+}
+
+/**
+ * 以格子大小取樣平均 RGB，並依調色盤量化
+ */
+export function sampleCellColors(pixels: RawPixels, size: CellSize, palette: ColorPalette = 'truecolor'): CellColors {
+  const grid = sampleRgbGrid(pixels, size.x, size.y);
+  return { cols: grid.cols, rows: grid.rows, rgb: quantizeRgbGrid(grid, palette) };
+}
+
+/**
+ * 依選項轉換 RGBA 像素為精簡幀；開啟 color 時附上每格顏色
+ */
+export function convertPixelsCompact(pixels: RawPixels, options: AsciiConvertOptions, ditherState?: DitherState): CompactFrame {
+  switch (options.renderMode) {
+    case 'braille': return convertBraille(pixels, options, ditherState);
+    case 'halfblock': return convertHalfBlock(pixels, options, ditherState);
+    case 'ascii':
+    default: {
+      const frame = convertAsciiGlyphs(pixels, options, ditherState);
+      if (options.color) frame.colors = sampleCellColors(pixels, resolveCellSize(options), options.palette);
+      return frame;
+    }
+  }
+}
+
+/**
+ * 依選項轉換 RGBA 像素；開啟 color 時附上每格顏色
+ */
+export function convertPixels(pixels: RawPixels, options: AsciiConvertOptions, ditherState?: DitherState): AsciiConvertResult {
+  const frame = convertPixelsCompact(pixels, options, ditherState);
+  return { frame: toAsciiFrame(frame), colors: frame.colors };
+}
@@ -0,0 +1,251 @@
+// asciiRecorder.ts
+// 錄下 VideoAsciiPlayer 送出的幀，並匯出成 asciicast v2（.cast）、逐幀 .txt 的 ZIP 或 JSON
+
+import { diffFrames, toText } from './compactFrame';
+import type { CompactFrame } from './compactFrame';
+import { sgrColor } from './ansiPalette';
+import type { ColorPalette } from './ansiPalette';
+import { FGBG_BACKGROUND_SCALE } from './glyphAtlas';
+import type { ColorRenderMode } from './glyphAtlas';
+import { createZip } from './zipArchive';
+import type { TypedEventEmitter, VideoAsciiPlayerEvents } from './playerEvents';
+
+/**
+ * 錄下的一幀
+ * - time: 距離開始錄製的實際時間（秒）
+ * - timestamp: 來源的播放時間（秒）
+ */
+export interface RecordedFrame {
+  time: number;
+  timestamp: number;
+  frame: CompactFrame;
+}
+
+/**
+ * 一段錄製結果；cols / rows 為所有幀中最大的欄列數
+ */
+export interface AsciiRecording {
+  frames: RecordedFrame[];
+  cols: number;
+  rows: number;
+  /** 開始錄製的時間（Unix 秒） */
+  startedAt: number;
+  duration: number;
+}
+
+export interface AnsiOptions {
+  /** 顏色輸出方式（預設依幀是否帶顏色決定 text 或 mono） */
+  colorMode?: ColorRenderMode;
+  palette?: ColorPalette;
+}
+
+export interface AsciicastOptions extends AnsiOptions {
+  title?: string;
+}
+
+export interface RecorderOptions {
+  /** 最多保留的幀數，超過時停止錄製（預設 36000，約 30fps 二十分鐘） */
+  maxFrames?: number;
+  /** 達到 maxFrames 而自動停止時呼叫 */
+  onLimit?: (recording: AsciiRecording) => void;
+}
+
+const DEFAULT_MAX_FRAMES = 36000;
+const ESC = '\x1b[';
+
+export class AsciiRecorder {
+  private frames: RecordedFrame[] = [];
+  private off: (() => void) | null = null;
+  private startedAt = 0;
+  private startTime = 0;
+  private maxFrames: number;
+  private onLimit?: (recording: AsciiRecording) => void;
+
+  constructor(options: RecorderOptions = {}) {
+    this.maxFrames = Math.max(1, options.maxFrames ?? DEFAULT_MAX_FRAMES);
+    this.onLimit = options.onLimit;
+  }
+
+  /**
+   * 開始錄製播放器送出的 frame 事件（會清掉上一段錄製）
+   */
+  start(player: TypedEventEmitter<VideoAsciiPlayerEvents>) {
+    this.stop();
+    this.frames = [];
+    this.startedAt = Date.now() / 1000;
+    this.startTime = performance.now();
+    // 播放器每幀都配置新的 buffer，可以直接保存不必複製
+    this.off = player.on('frame', ({ frame, timestamp }) => {
+      this.frames.push({ time: (performance.now() - this.startTime) / 1000, timestamp, frame });
+      if (this.frames.length >= this.maxFrames) this.onLimit?.(this.stop());
+    });
+  }
+
+  /**
+   * 停止錄製並回傳結果
+   */
+  stop(): AsciiRecording {
+    this.off?.();
+    this.off = null;
+    return this.getRecording();
+  }
+
+  isRecording(): boolean {
+    return this.off !== null;
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  getRecording(): AsciiRecording {
+    return createRecording(this.frames, this.startedAt);
+  }
+
+  clear() {
+    this.frames = [];
+  }
+}
+
+/**
+ * 由幀列表建立錄製結果
+ */
+export function createRecording(frames: RecordedFrame[], startedAt = Date.now() / 1000): AsciiRecording {
+  return {
+    frames: frames.slice(),
+    cols: frames.reduce((max, f) => Math.max(max, f.frame.cols), 0),
+    rows: frames.reduce((max, f) => Math.max(max, f.frame.rows), 0),
+    startedAt,
+    duration: frames.length ? frames[frames.length - 1].time : 0,
+  };
+}
+
+// 一格的 SGR 參數；沒有顏色時為空字串
+function cellSgr(frame: CompactFrame, i: number, mode: ColorRenderMode, palette: ColorPalette): string {
+  const colors = frame.colors;
+  if (!colors || mode === 'mono') return '';
+  const o = i * 3;
+  const { rgb, bg } = colors;
+  const fg = sgrColor(rgb[o], rgb[o + 1], rgb[o + 2], palette);
+  if (bg) return `${fg};${sgrColor(bg[o], bg[o + 1], bg[o + 2], palette, true)}`;
+  if (mode === 'fgbg') {
+    const k = FGBG_BACKGROUND_SCALE;
+    return `${fg};${sgrColor(rgb[o] * k, rgb[o + 1] * k, rgb[o + 2] * k, palette, true)}`;
+  }
+  return fg;
+}
+
+// 一列中 [start, start + length) 的 ANSI 文字；顏色相同的相鄰格只輸出一次 SGR
+function renderRun(frame: CompactFrame, row: number, start: number, length: number, mode: ColorRenderMode, palette: ColorPalette): string {
+  let out = '';
+  let current = '';
+  for (let x = start; x < start + length; x++) {
+    const i = row * frame.cols + x;
+    const sgr = cellSgr(frame, i, mode, palette);
+    if (sgr !== current) {
+      out += sgr ? `${ESC}0;${sgr}m` : `${ESC}0m`;
+      current = sgr;
+    }
+    out += frame.charset[frame.glyphs[i]];
+  }
+  if (current) out += `${ESC}0m`;
+  return out;
+}
+
+/**
+ * 整幀的 ANSI 文字；每列結尾重設顏色
+ */
+export function toAnsiText(frame: CompactFrame, options: AnsiOptions = {}, eol = '\n'): string {
+  const mode = options.colorMode ?? (frame.colors ? 'text' : 'mono');
+  const palette = options.palette ?? 'truecolor';
+  const lines: string[] = [];
+  for (let y = 0; y < frame.rows; y++) lines.push(renderRun(frame, y, 0, frame.cols, mode, palette));
+  return lines.join(eol);
+}
+
+/**
+ * 把終端機畫面從 prev 更新成 frame 的輸出
+ * prev 為 null 或尺寸改變時清除畫面重畫，其餘只輸出有變動的區段
+ */
+export function ansiFrameUpdate(prev: CompactFrame | null, frame: CompactFrame, mode: ColorRenderMode, palette: ColorPalette): string {
+  let data = '';
+  if (!prev || prev.cols !== frame.cols || prev.rows !== frame.rows) {
+    data = `${ESC}0m${ESC}2J`;
+    for (let y = 0; y < frame.rows; y++) data += `${ESC}${y + 1};1H${renderRun(frame, y, 0, frame.cols, mode, palette)}`;
+  } else {
+    for (const run of diffFrames(prev, frame)) {
+      data += `${ESC}${run.row + 1};${run.start + 1}H${renderRun(frame, run.row, run.start, run.length, mode, palette)}`;
+    }
+  }
+  return data;
+}
+
+/**
+ * 匯出成 asciicast v2（asciinema 的 .cast 格式）
+ */
+export function toAsciicast(recording: AsciiRecording, options: AsciicastOptions = {}): string {
+  const palette = options.palette ?? 'truecolor';
+  const hasColor = recording.frames.some((f) => f.frame.colors);
+  const mode = options.colorMode ?? (hasColor ? 'text' : 'mono');
+  const header: Record<string, unknown> = {
+    version: 2,
+    width: Math.max(1, recording.cols),
+    height: Math.max(1, recording.rows),
+    timestamp: Math.floor(recording.startedAt),
+    env: { TERM: 'xterm-256color' },
+  };
+  if (options.title) header.title = options.title;
+  const lines = [JSON.stringify(header)];
+
+  let prev: CompactFrame | null = null;
+  for (const { time, frame } of recording.frames) {
+    const data = ansiFrameUpdate(prev, frame, mode, palette);
+    prev = frame;
+    if (data) lines.push(JSON.stringify([Number(time.toFixed(6)), 'o', data]));
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * 每幀一個 .txt 的 ZIP（frame-000001.txt 起算）
+ */
+export function toFrameArchive(recording: AsciiRecording, eol = '\n'): Uint8Array<ArrayBuffer> {
+  const digits = Math.max(6, String(recording.frames.length).length);
+  return createZip(recording.frames.map((f, i) => ({
+    name: `frame-${String(i + 1).padStart(digits, '0')}.txt`,
+    data: toText(f.frame, eol) + eol,
+  })));
+}
+
+// 顏色 buffer 轉成十六進位字串（每格 6 個字元）
+function toHex(bytes: Uint8ClampedArray): string {
+  let out = '';
+  for (let i = 0; i < bytes.length; i++) out += bytes[i].toString(16).padStart(2, '0');
+  return out;
+}
+
+/**
+ * 匯出成單一 JSON：每幀為文字列與（有顏色時）十六進位 RGB
+ */
+export function toFrameSequenceJson(recording: AsciiRecording): string {
+  return JSON.stringify({
+    version: 1,
+    cols: recording.cols,
+    rows: recording.rows,
+    startedAt: recording.startedAt,
+    duration: recording.duration,
+    frames: recording.frames.map(({ time, timestamp, frame }) => ({
+      time,
+      timestamp,
+      cols: frame.cols,
+      rows: frame.rows,
+      lines: toText(frame).split('\n'),
+      ...(frame.colors && {
+        colors: {
+          rgb: toHex(frame.colors.rgb),
+          ...(frame.colors.bg && { bg: toHex(frame.colors.bg) }),
+        },
+      }),
+    })),
+  });
+}
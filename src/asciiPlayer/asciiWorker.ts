@@ -0,0 +1,60 @@
+// asciiWorker.ts
+// 在 Worker 中用 OffscreenCanvas 解碼 ImageBitmap 並轉成 ASCII，避免卡住主執行緒
+
+import { convertPixelsCompact } from './asciiConverter';
+import type { AsciiConvertOptions, CompactFrame } from './asciiConverter';
+import { createDitherState } from './dither';
+
+export interface AsciiWorkerRequest {
+  id: number;
+  bitmap: ImageBitmap;
+  options: AsciiConvertOptions;
+}
+
+// 結果一律以精簡幀回傳，字元索引與顏色的 buffer 直接轉移，不需複製
+// 失敗時 errorName 為例外名稱（例如來源跨域污染時的 SecurityError）
+export type AsciiWorkerResponse =
+  | { id: number; result: CompactFrame; error?: undefined }
+  | { id: number; result?: undefined; error: string; errorName: string };
+
+let canvas: OffscreenCanvas | null = null;
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+// 誤差擴散的跨幀狀態保存在 Worker 端；抖動模式、輸出模式、字元集或畫面尺寸改變時重設
+let ditherState = createDitherState();
+let ditherKey = '';
+
+self.onmessage = (e: MessageEvent<AsciiWorkerRequest>) => {
+  const { id, bitmap, options } = e.data;
+  try {
+    const { width: w, height: h } = bitmap;
+    if (!canvas || !ctx) {
+      canvas = new OffscreenCanvas(w, h);
+      ctx = canvas.getContext('2d', { willReadFrequently: true });
+      if (!ctx) throw new Error('Cannot get OffscreenCanvas 2D context');
+    }
+    if (canvas.width !== w || canvas.height !== h) {
+      canvas.width = w;
+      canvas.height = h;
+    }
+    const key = `${options.dither}|${options.renderMode}|${options.chars}|${w}x${h}`;
+    if (key !== ditherKey) {
+      ditherState = createDitherState();
+      ditherKey = key;
+    }
+    ctx.drawImage(bitmap, 0, 0, w, h);
+    const pixels = ctx.getImageData(0, 0, w, h);
+    const result = convertPixelsCompact(pixels, options, ditherState);
+    const res: AsciiWorkerResponse = { id, result };
+    const transfer: Transferable[] = [result.glyphs.buffer];
+    if (result.colors) {
+      transfer.push(result.colors.rgb.buffer);
+      if (result.colors.bg) transfer.push(result.colors.bg.buffer);
+    }
+    self.postMessage(res, { transfer });
+  } catch (err) {
+    const res: AsciiWorkerResponse = { id, error: (err as Error).message, errorName: (err as Error).name };
+    self.postMessage(res);
+  } finally {
+    bitmap.close();
+  }
+};
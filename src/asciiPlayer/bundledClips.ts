@@ -0,0 +1,21 @@
+// bundledClips.ts
+// 隨專案附上的示範影片（src/public/videos），由 Vite 打包成靜態資源
+
+import type { PlaylistItem } from './playlist';
+
+// new URL(..., import.meta.url) 必須是字面字串，Vite 才能在建置時改寫成打包後的路徑
+export const BUNDLED_CLIPS: PlaylistItem[] = [
+  { title: 'Bocchi', src: new URL('../public/videos/bocchi.webm', import.meta.url).href },
+  { title: 'Bocchi 2', src: new URL('../public/videos/bocchi2.webm', import.meta.url).href },
+  { title: 'Bocchi 3', src: new URL('../public/videos/bocchi3.webm', import.meta.url).href },
+  { title: 'Kita', src: new URL('../public/videos/kita.webm', import.meta.url).href },
+  { title: 'Kita 2', src: new URL('../public/videos/kita2.webm', import.meta.url).href },
+  { title: 'Nijika', src: new URL('../public/videos/nijika.webm', import.meta.url).href },
+  { title: 'Ryo', src: new URL('../public/videos/ryo.webm', import.meta.url).href },
+  { title: 'Ryo 2', src: new URL('../public/videos/ryo2.webm', import.meta.url).href },
+  { title: 'Kessoku Band', src: new URL('../public/videos/kessoku.webm', import.meta.url).href },
+  {
+    title: '止まらないオルガBB',
+    src: new URL('../public/videos/止まらないオルガBB with effect - RetroMaestroHalil (720p, h264).mp4', import.meta.url).href,
+  },
+];
@@ -0,0 +1,72 @@
+// cellSize.ts
+// 字元格大小：水平/垂直取樣間距、字型長寬比與目標欄列數換算
+
+import type { RenderMode } from './asciiConverter';
+
+/**
+ * 單一子取樣在原始影像上涵蓋的像素大小（可為小數）
+ */
+export interface CellSize {
+  x: number;
+  y: number;
+}
+
+export interface CellSizeOptions {
+  step: number;
+  stepX?: number;
+  stepY?: number;
+  /** 字元寬 / 行高，例如等寬字型約 0.5~0.6 */
+  charAspect?: number;
+  renderMode?: RenderMode;
+}
+
+/**
+ * 每個字元格包含的子取樣數
+ */
+export function subcellSize(mode: RenderMode = 'ascii'): CellSize {
+  switch (mode) {
+    case 'braille': return { x: 2, y: 4 };
+    case 'halfblock': return { x: 1, y: 2 };
+    case 'ascii':
+    default:
+      return { x: 1, y: 1 };
+  }
+}
+
+// 讓字元格長寬比等於 charAspect 時，垂直與水平取樣間距的比值
+function verticalRatio(charAspect: number | undefined, mode: RenderMode | undefined): number {
+  if (!charAspect || charAspect <= 0) return 1;
+  const sub = subcellSize(mode);
+  return sub.x / (charAspect * sub.y);
+}
+
+/**
+ * 解析實際的取樣間距
+ * 優先順序：stepY > 依 charAspect 推算 > 與 stepX 相同
+ */
+export function resolveCellSize(options: CellSizeOptions): CellSize {
+  const x = Math.max(1, options.stepX ?? options.step);
+  const y = options.stepY ?? x * verticalRatio(options.charAspect, options.renderMode);
+  return { x, y: Math.max(1, y) };
+}
+
+/**
+ * 依目標欄數與列數計算取樣間距，保持來源長寬比且不超過任一目標
+ * targetRows 為 0 或省略時只限制欄數
+ */
+export function fitCellSize(
+  srcWidth: number,
+  srcHeight: number,
+  targetCols: number,
+  targetRows = 0,
+  options: Pick<CellSizeOptions, 'charAspect' | 'renderMode'> = {},
+): CellSize {
+  const sub = subcellSize(options.renderMode);
+  const k = verticalRatio(options.charAspect, options.renderMode);
+  let x = srcWidth / (Math.max(1, targetCols) * sub.x);
+  if (targetRows > 0) {
+    x = Math.max(x, srcHeight / (targetRows * sub.y * k));
+  }
+  x = Math.max(1, x);
+  return { x, y: Math.max(1, x * k) };
+}
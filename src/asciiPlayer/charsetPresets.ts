@@ -0,0 +1,18 @@
+// charsetPresets.ts
+// 常用的字元集；needsMeasure 為 true 的字元集沒有預先排序，使用前要以 glyphDensity 依字型量測排序
+
+export interface CharsetPreset {
+  id: string;
+  name: string;
+  chars: string;
+  needsMeasure?: boolean;
+}
+
+export const CHARSET_PRESETS: readonly CharsetPreset[] = [
+  { id: 'standard10', name: '標準 10 階', chars: '@%#*+=-:. ' },
+  // Paul Bourke 的 70 階灰階字元
+  { id: 'standard70', name: '標準 ASCII 70 階', chars: '$@B%8&WM#*oahkbdpqwmZO0QLCJUYXzcvunxrjft/\\|()1{}[]?-_+~<>i!lI;:,"^`\'. ' },
+  { id: 'blocks', name: '方塊 █▓▒░', chars: '█▓▒░ ' },
+  { id: 'digits', name: '數字', chars: '8096532471 ', needsMeasure: true },
+  { id: 'katakana', name: '半形片假名', chars: 'ﾊﾐﾋｰｳｼﾅﾓﾆｻﾜﾂｵﾘｱﾎﾃﾏｹﾒｴｶｷﾑﾕﾗｾﾈｽﾀﾇﾍｦｲｸｺｿﾁﾄﾉﾌﾔﾖﾙﾚﾛﾝ ', needsMeasure: true },
+];
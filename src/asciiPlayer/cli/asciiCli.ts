@@ -0,0 +1,268 @@
+// asciiCli.ts
+// 命令列工具：把 PNG / JPEG 圖片或編號畫格的目錄轉成 ASCII / ANSI 彩色文字，
+// 依終端機寬度輸出到 stdout、在終端機中播放，或寫成 .txt / .cast / .zip；不需要瀏覽器或網路
+// 建置：npm run build:cli，執行：node dist-cli/asciiCli.js <input> [options]
+
+import { stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { parseArgs } from 'node:util';
+import { convertPixelsCompact, defaultThreshold, DEFAULT_CHARS, DEFAULT_TONE, fitCellSize, toText } from '../asciiConverter';
+import type { AsciiConvertOptions, CompactFrame, RawPixels, RenderMode } from '../asciiConverter';
+import type { ColorPalette } from '../ansiPalette';
+import { createDitherState } from '../dither';
+import type { DitherMode, DitherState } from '../dither';
+import type { ColorRenderMode } from '../glyphAtlas';
+import { ansiFrameUpdate, createRecording, toAnsiText, toAsciicast, toFrameArchive } from '../asciiRecorder';
+import type { RecordedFrame } from '../asciiRecorder';
+import { listFrameFiles, readImage } from './imageFiles';
+
+const USAGE = `Usage: node dist-cli/asciiCli.js <image | frame directory> [options]
+
+Input is a PNG / JPEG file or a directory of numbered PNG / JPEG frames.
+
+Options:
+  -w, --cols <n>        output columns (default: terminal width, or 80)
+  -r, --rows <n>        maximum rows (default: unlimited; terminal height when playing)
+  -c, --chars <chars>   charset, densest first (default: "${DEFAULT_CHARS}")
+  -m, --mode <mode>     ascii | braille | halfblock (default: ascii)
+      --color <mode>    mono | text | fgbg (default: mono)
+      --palette <name>  truecolor | ansi256 | ansi16 (default: truecolor if COLORTERM says so, else ansi256)
+  -i, --invert          invert brightness (useful on dark terminals)
+      --dither <mode>   none | floyd-steinberg | atkinson | bayer2 | bayer4 | bayer8
+      --edges           use directional glyphs on strong edges
+      --brightness <n>  -1 ~ 1 (default: 0)
+      --contrast <n>    0 or more (default: 1)
+      --gamma <n>       greater than 0 (default: 1)
+      --aspect <n>      character width / line height (default: 0.5)
+  -p, --play            play a frame directory in the terminal (Ctrl+C to stop)
+  -f, --fps <n>         frames per second for playback and .cast timing (default: 24)
+  -l, --loop            loop playback
+  -o, --output <file>   write .txt (ANSI when --color is set), .cast (asciicast v2) or .zip (one .txt per frame)
+  -h, --help            show this help
+`;
+
+const RENDER_MODES: RenderMode[] = ['ascii', 'braille', 'halfblock'];
+const COLOR_MODES: ColorRenderMode[] = ['mono', 'text', 'fgbg'];
+const PALETTES: ColorPalette[] = ['truecolor', 'ansi256', 'ansi16'];
+const DITHER_MODES: DitherMode[] = ['none', 'floyd-steinberg', 'atkinson', 'bayer2', 'bayer4', 'bayer8'];
+const DEFAULT_FPS = 24;
+const DEFAULT_ASPECT = 0.5;
+// .txt 輸出多幀時以換頁字元分隔
+const PAGE_BREAK = '\n\f\n';
+
+/**
+ * 解析後的命令列設定
+ */
+interface CliSettings {
+  input: string;
+  cols?: number;
+  rows?: number;
+  colorMode: ColorRenderMode;
+  palette: ColorPalette;
+  convert: Omit<AsciiConvertOptions, 'step'>;
+  play: boolean;
+  fps: number;
+  loop: boolean;
+  output?: string;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+function oneOf<T extends string>(name: string, value: string | undefined, allowed: readonly T[], fallback: T): T {
+  if (value === undefined) return fallback;
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new UsageError(`--${name} must be one of: ${allowed.join(', ')}.`);
+  }
+  return value as T;
+}
+
+function toNumber(name: string, value: string | undefined, min: number, max = Infinity): number | undefined {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isFinite(n) || n < min || n > max) {
+    throw new UsageError(max === Infinity ? `--${name} must be a number >= ${min}.` : `--${name} must be between ${min} and ${max}.`);
+  }
+  return n;
+}
+
+function parseSettings(argv: string[]): CliSettings | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      cols: { type: 'string', short: 'w' },
+      rows: { type: 'string', short: 'r' },
+      chars: { type: 'string', short: 'c' },
+      mode: { type: 'string', short: 'm' },
+      color: { type: 'string' },
+      palette: { type: 'string' },
+      invert: { type: 'boolean', short: 'i' },
+      dither: { type: 'string' },
+      edges: { type: 'boolean' },
+      brightness: { type: 'string' },
+      contrast: { type: 'string' },
+      gamma: { type: 'string' },
+      aspect: { type: 'string' },
+      play: { type: 'boolean', short: 'p' },
+      fps: { type: 'string', short: 'f' },
+      loop: { type: 'boolean', short: 'l' },
+      output: { type: 'string', short: 'o' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) return null;
+  if (positionals.length !== 1) throw new UsageError('Expected exactly one input path.');
+
+  const chars = values.chars ?? DEFAULT_CHARS;
+  if (Array.from(chars).length < 2) throw new UsageError('--chars needs at least two characters.');
+  const colorMode = oneOf('color', values.color, COLOR_MODES, 'mono');
+  const detected: ColorPalette = /truecolor|24bit/i.test(process.env.COLORTERM ?? '') ? 'truecolor' : 'ansi256';
+  const palette = oneOf('palette', values.palette, PALETTES, detected);
+  return {
+    input: positionals[0],
+    cols: toNumber('cols', values.cols, 1),
+    rows: toNumber('rows', values.rows, 1),
+    colorMode,
+    palette,
+    convert: {
+      chars,
+      threshold: defaultThreshold(chars),
+      charAspect: toNumber('aspect', values.aspect, 0.05) ?? DEFAULT_ASPECT,
+      renderMode: oneOf('mode', values.mode, RENDER_MODES, 'ascii'),
+      invert: values.invert ?? false,
+      dither: oneOf('dither', values.dither, DITHER_MODES, 'none'),
+      edges: values.edges ?? false,
+      color: colorMode !== 'mono',
+      palette,
+      brightness: toNumber('brightness', values.brightness, -1, 1) ?? DEFAULT_TONE.brightness,
+      contrast: toNumber('contrast', values.contrast, 0) ?? DEFAULT_TONE.contrast,
+      gamma: toNumber('gamma', values.gamma, 0.01) ?? DEFAULT_TONE.gamma,
+    },
+    play: values.play ?? false,
+    fps: toNumber('fps', values.fps, 0.1) ?? DEFAULT_FPS,
+    loop: values.loop ?? false,
+    output: values.output,
+  };
+}
+
+/**
+ * 依目前的終端機大小（或指定的欄列數）轉換一幀
+ */
+function convertImage(pixels: RawPixels, settings: CliSettings, ditherState: DitherState, fitRows: boolean): CompactFrame {
+  const out = process.stdout;
+  const cols = settings.cols ?? (out.columns || 80);
+  const rows = settings.rows ?? (fitRows && out.rows ? out.rows : 0);
+  const cell = fitCellSize(pixels.width, pixels.height, cols, rows, settings.convert);
+  return convertPixelsCompact(pixels, { ...settings.convert, step: cell.x, stepX: cell.x, stepY: cell.y }, ditherState);
+}
+
+function frameText(frame: CompactFrame, settings: CliSettings): string {
+  return settings.colorMode === 'mono'
+    ? toText(frame)
+    : toAnsiText(frame, { colorMode: settings.colorMode, palette: settings.palette });
+}
+
+async function writeOutput(file: string, frames: CompactFrame[], settings: CliSettings) {
+  const recorded: RecordedFrame[] = frames.map((frame, i) => ({ time: i / settings.fps, timestamp: i / settings.fps, frame }));
+  const recording = createRecording(recorded);
+  switch (path.extname(file).toLowerCase()) {
+    case '.cast':
+      await writeFile(file, toAsciicast(recording, {
+        title: path.basename(settings.input),
+        colorMode: settings.colorMode,
+        palette: settings.palette,
+      }));
+      break;
+    case '.zip':
+      await writeFile(file, toFrameArchive(recording));
+      break;
+    default:
+      await writeFile(file, frames.map((frame) => frameText(frame, settings)).join(PAGE_BREAK) + '\n');
+  }
+}
+
+/**
+ * 在終端機的替代畫面中依 fps 播放；每幀只重畫有變動的區段，終端機尺寸改變時整個重畫
+ * 回傳第一輪播放的幀（供 --output 使用）
+ */
+async function play(files: string[], settings: CliSettings): Promise<CompactFrame[]> {
+  const out = process.stdout;
+  const played: CompactFrame[] = [];
+  const ditherState = createDitherState();
+  let stopped = false;
+  const stop = () => {
+    stopped = true;
+  };
+  process.once('SIGINT', stop);
+  out.write('\x1b[?1049h\x1b[?25l');
+  try {
+    const frameMs = 1000 / settings.fps;
+    const start = performance.now();
+    let prev: CompactFrame | null = null;
+    let shown = 0;
+    do {
+      for (let i = 0; i < files.length && !stopped; i++) {
+        const frame = convertImage(await readImage(files[i]), settings, ditherState, true);
+        if (played.length < files.length) played.push(frame);
+        // 依累計時間排程；轉換跟不上時不等待
+        const delay = start + shown * frameMs - performance.now();
+        if (delay > 0) await sleep(delay);
+        out.write(ansiFrameUpdate(prev, frame, settings.colorMode, settings.palette));
+        prev = frame;
+        shown++;
+      }
+    } while (settings.loop && !stopped);
+  } finally {
+    process.off('SIGINT', stop);
+    out.write('\x1b[0m\x1b[?25h\x1b[?1049l');
+  }
+  return played;
+}
+
+export async function main(argv: string[]): Promise<number> {
+  const settings = parseSettings(argv);
+  if (!settings) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+  const isDirectory = (await stat(settings.input)).isDirectory();
+  const files = isDirectory ? await listFrameFiles(settings.input) : [settings.input];
+
+  let frames: CompactFrame[];
+  if (settings.play) {
+    frames = await play(files, settings);
+  } else {
+    const ditherState = createDitherState();
+    frames = [];
+    for (const file of files) frames.push(convertImage(await readImage(file), settings, ditherState, false));
+  }
+
+  if (settings.output) {
+    await writeOutput(settings.output, frames, settings);
+  } else if (!settings.play) {
+    process.stdout.write(frames.map((frame) => frameText(frame, settings)).join(PAGE_BREAK) + '\n');
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (err: unknown) => {
+    const message = err instanceof Error ? err.message : String(err);
+    process.stderr.write(`asciiCli: ${message}\n`);
+    if (err instanceof UsageError || (err instanceof Error && 'code' in err && String(err.code).startsWith('ERR_PARSE_ARGS'))) {
+      process.stderr.write('Run with --help for usage.\n');
+      process.exitCode = 2;
+    } else {
+      process.exitCode = 1;
+    }
+  },
+);
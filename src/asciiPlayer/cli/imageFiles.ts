@@ -0,0 +1,41 @@
+// imageFiles.ts
+// 讀取 PNG / JPEG 靜態圖片與編號畫格的目錄（Node）
+
+import { readdir, readFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { RawPixels } from '../sampling';
+import { decodePng, isPng } from './pngDecoder';
+import { decodeJpeg, isJpeg } from './jpegDecoder';
+
+const FRAME_EXTENSIONS = new Set(['.png', '.jpg', '.jpeg']);
+
+/**
+ * 依檔頭判斷格式並解碼
+ */
+export function decodeImage(data: Uint8Array, name = 'input'): RawPixels {
+  if (isPng(data)) return decodePng(data);
+  if (isJpeg(data)) return decodeJpeg(data);
+  throw new Error(`${name}: unsupported image format (expected PNG or JPEG).`);
+}
+
+export async function readImage(file: string): Promise<RawPixels> {
+  return decodeImage(await readFile(file), file);
+}
+
+// 檔名中最後一段數字，作為畫格編號
+function frameNumber(name: string): number {
+  const match = /(\d+)(?!.*\d)/.exec(name);
+  return match ? Number(match[1]) : NaN;
+}
+
+/**
+ * 列出目錄中帶編號的圖片，依編號排序（frame-2.png 排在 frame-10.png 之前）
+ */
+export async function listFrameFiles(dir: string): Promise<string[]> {
+  const names = (await readdir(dir)).filter((name) => (
+    FRAME_EXTENSIONS.has(path.extname(name).toLowerCase()) && !Number.isNaN(frameNumber(name))
+  ));
+  if (names.length === 0) throw new Error(`${dir}: no numbered PNG or JPEG frames found.`);
+  names.sort((a, b) => frameNumber(a) - frameNumber(b) || a.localeCompare(b));
+  return names.map((name) => path.join(dir, name));
+}
@@ -0,0 +1,531 @@
+// jpegDecoder.ts
+// JPEG 解碼器：支援 Huffman 編碼的 baseline / progressive、色度次取樣與 restart 區間
+// 不支援算術編碼與無失真 JPEG；色度以最近鄰放大，不處理 EXIF 方向
+
+import type { RawPixels } from '../sampling';
+
+// zigzag 順序第 k 個係數在 8x8 區塊中的位置
+const ZIGZAG = new Uint8Array([
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5,
+  12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51,
+  58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55, 62, 63,
+]);
+
+// 一維 IDCT 的係數表：IDCT_TABLE[x * 8 + u] = C(u) / 2 * cos((2x + 1)uπ / 16)
+const IDCT_TABLE = new Float32Array(64);
+for (let x = 0; x < 8; x++) {
+  for (let u = 0; u < 8; u++) {
+    IDCT_TABLE[x * 8 + u] = (u === 0 ? Math.SQRT1_2 : 1) / 2 * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+  }
+}
+
+/**
+ * 以各碼長的最大碼值解碼的 Huffman 表
+ */
+interface HuffmanTable {
+  maxCode: Int32Array;
+  valueOffset: Int32Array;
+  values: Uint8Array;
+}
+
+interface FrameComponent {
+  id: number;
+  h: number;
+  v: number;
+  quantTable: number;
+  /** 依 MCU 補齊後每列的區塊數 */
+  blocksPerLine: number;
+  blocksPerColumn: number;
+  /** 實際涵蓋影像的區塊數（非交錯掃描只走這些區塊） */
+  usedBlocksPerLine: number;
+  usedBlocksPerColumn: number;
+  coefficients: Int16Array;
+  dcTable?: HuffmanTable;
+  acTable?: HuffmanTable;
+  pred: number;
+}
+
+interface Frame {
+  progressive: boolean;
+  width: number;
+  height: number;
+  maxH: number;
+  maxV: number;
+  mcusPerLine: number;
+  mcusPerColumn: number;
+  components: FrameComponent[];
+}
+
+/**
+ * 檢查是否為 JPEG 檔頭
+ */
+export function isJpeg(data: Uint8Array): boolean {
+  return data[0] === 0xff && data[1] === 0xd8;
+}
+
+function buildHuffmanTable(counts: Uint8Array, values: Uint8Array): HuffmanTable {
+  const maxCode = new Int32Array(18).fill(-1);
+  const valueOffset = new Int32Array(17);
+  let code = 0;
+  let k = 0;
+  for (let len = 1; len <= 16; len++) {
+    // valueOffset + 碼值 = 該碼在 values 中的索引
+    valueOffset[len] = k - code;
+    code += counts[len - 1];
+    k += counts[len - 1];
+    if (counts[len - 1]) maxCode[len] = code - 1;
+    code <<= 1;
+  }
+  maxCode[17] = 0x7fffffff;
+  return { maxCode, valueOffset, values };
+}
+
+function isRestartMarker(marker: number): boolean {
+  return marker >= 0xffd0 && marker <= 0xffd7;
+}
+
+/**
+ * 解碼一段掃描資料，回傳掃描資料之後的位置
+ */
+function decodeScan(
+  data: Uint8Array,
+  start: number,
+  frame: Frame,
+  components: FrameComponent[],
+  restartInterval: number,
+  spectralStart: number,
+  spectralEnd: number,
+  approxHigh: number,
+  approxLow: number,
+): number {
+  let offset = start;
+  let bitsData = 0;
+  let bitsCount = 0;
+  let eobRun = 0;
+  // progressive AC 細化的狀態：0 初始、1/2 略過 r 個零係數、3 寫入新係數、4 EOB 區段
+  let refineState = 0;
+  let refineValue = 0;
+
+  const readBit = (): number => {
+    if (bitsCount > 0) return (bitsData >> --bitsCount) & 1;
+    bitsData = data[offset++] ?? 0;
+    if (bitsData === 0xff) {
+      if (data[offset] === 0) {
+        offset++;
+      } else {
+        // 資料中途遇到標記（檔案損毀或截斷）：不吃掉標記，以 0 補齊
+        offset--;
+        bitsData = 0;
+      }
+    }
+    bitsCount = 7;
+    return bitsData >> 7;
+  };
+  const receive = (length: number): number => {
+    let n = 0;
+    while (length-- > 0) n = (n << 1) | readBit();
+    return n;
+  };
+  const receiveExtend = (length: number): number => {
+    if (length === 0) return 0;
+    const n = receive(length);
+    return n >= 1 << (length - 1) ? n : n - (1 << length) + 1;
+  };
+  const decodeHuffman = (table: HuffmanTable | undefined): number => {
+    if (!table) throw new Error('JPEG scan references a missing Huffman table.');
+    let code = readBit();
+    let len = 1;
+    while (code > table.maxCode[len]) {
+      code = (code << 1) | readBit();
+      if (++len > 16) throw new Error('Invalid JPEG Huffman code.');
+    }
+    return table.values[table.valueOffset[len] + code];
+  };
+
+  const decodeBaseline = (c: FrameComponent, o: number) => {
+    const t = decodeHuffman(c.dcTable);
+    c.pred += receiveExtend(t);
+    c.coefficients[o] = c.pred;
+    for (let k = 1; k < 64;) {
+      const rs = decodeHuffman(c.acTable);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) break;
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      c.coefficients[o + ZIGZAG[k]] = receiveExtend(s);
+      k++;
+    }
+  };
+  const decodeDcFirst = (c: FrameComponent, o: number) => {
+    const t = decodeHuffman(c.dcTable);
+    c.pred += receiveExtend(t) * (1 << approxLow);
+    c.coefficients[o] = c.pred;
+  };
+  const decodeDcRefine = (c: FrameComponent, o: number) => {
+    if (readBit()) c.coefficients[o] |= 1 << approxLow;
+  };
+  const decodeAcFirst = (c: FrameComponent, o: number) => {
+    if (eobRun > 0) {
+      eobRun--;
+      return;
+    }
+    for (let k = spectralStart; k <= spectralEnd;) {
+      const rs = decodeHuffman(c.acTable);
+      const s = rs & 15;
+      const r = rs >> 4;
+      if (s === 0) {
+        if (r < 15) {
+          eobRun = receive(r) + (1 << r) - 1;
+          break;
+        }
+        k += 16;
+        continue;
+      }
+      k += r;
+      if (k > 63) break;
+      c.coefficients[o + ZIGZAG[k]] = receiveExtend(s) * (1 << approxLow);
+      k++;
+    }
+  };
+  const decodeAcRefine = (c: FrameComponent, o: number) => {
+    const coef = c.coefficients;
+    let r = 0;
+    for (let k = spectralStart; k <= spectralEnd;) {
+      const z = o + ZIGZAG[k];
+      const sign = coef[z] < 0 ? -1 : 1;
+      switch (refineState) {
+        case 0: {
+          const rs = decodeHuffman(c.acTable);
+          const s = rs & 15;
+          r = rs >> 4;
+          if (s === 0) {
+            if (r < 15) {
+              eobRun = receive(r) + (1 << r);
+              refineState = 4;
+            } else {
+              r = 16;
+              refineState = 1;
+            }
+          } else {
+            if (s !== 1) throw new Error('Invalid JPEG AC refinement code.');
+            refineValue = receiveExtend(s);
+            refineState = r ? 2 : 3;
+          }
+          continue;
+        }
+        case 1:
+        case 2:
+          if (coef[z]) {
+            coef[z] += sign * (readBit() << approxLow);
+          } else if (--r === 0) {
+            refineState = refineState === 2 ? 3 : 0;
+          }
+          break;
+        case 3:
+          if (coef[z]) {
+            coef[z] += sign * (readBit() << approxLow);
+          } else {
+            coef[z] = refineValue * (1 << approxLow);
+            refineState = 0;
+          }
+          break;
+        case 4:
+          if (coef[z]) coef[z] += sign * (readBit() << approxLow);
+          break;
+      }
+      k++;
+    }
+    if (refineState === 4 && --eobRun === 0) refineState = 0;
+  };
+
+  let decodeBlock: (c: FrameComponent, o: number) => void;
+  if (!frame.progressive) decodeBlock = decodeBaseline;
+  else if (spectralStart === 0) decodeBlock = approxHigh === 0 ? decodeDcFirst : decodeDcRefine;
+  else decodeBlock = approxHigh === 0 ? decodeAcFirst : decodeAcRefine;
+
+  const blockOffset = (c: FrameComponent, row: number, col: number) => 64 * (row * c.blocksPerLine + col);
+  // 單一成分的掃描不以 MCU 為單位，而是逐一走過實際涵蓋影像的區塊
+  const single = components.length === 1 ? components[0] : null;
+  const total = single
+    ? single.usedBlocksPerLine * single.usedBlocksPerColumn
+    : frame.mcusPerLine * frame.mcusPerColumn;
+  const interval = restartInterval > 0 ? restartInterval : total;
+
+  let mcu = 0;
+  while (mcu < total) {
+    for (const c of components) c.pred = 0;
+    eobRun = 0;
+    refineState = 0;
+    const end = Math.min(total, mcu + interval);
+    for (; mcu < end; mcu++) {
+      if (single) {
+        const row = Math.floor(mcu / single.usedBlocksPerLine);
+        const col = mcu % single.usedBlocksPerLine;
+        decodeBlock(single, blockOffset(single, row, col));
+        continue;
+      }
+      const mcuRow = Math.floor(mcu / frame.mcusPerLine);
+      const mcuCol = mcu % frame.mcusPerLine;
+      for (const c of components) {
+        for (let v = 0; v < c.v; v++) {
+          for (let h = 0; h < c.h; h++) {
+            decodeBlock(c, blockOffset(c, mcuRow * c.v + v, mcuCol * c.h + h));
+          }
+        }
+      }
+    }
+    // restart 標記之後重新對齊位元組
+    bitsCount = 0;
+    if (mcu < total) {
+      const marker = (data[offset] << 8) | data[offset + 1];
+      if (!isRestartMarker(marker)) break;
+      offset += 2;
+    }
+  }
+
+  // 略過剩下的填充位元與 restart 標記，找到下一個標記
+  while (offset < data.length - 1) {
+    const marker = (data[offset] << 8) | data[offset + 1];
+    if (data[offset] === 0xff && data[offset + 1] !== 0 && data[offset + 1] !== 0xff && !isRestartMarker(marker)) break;
+    offset++;
+  }
+  return offset;
+}
+
+/**
+ * 反量化並做 IDCT，產生一個成分的 8 bit 樣本平面（寬為 blocksPerLine * 8）
+ */
+function buildPlane(c: FrameComponent, quant: Uint16Array): Uint8Array {
+  const lineWidth = c.blocksPerLine * 8;
+  const plane = new Uint8Array(lineWidth * c.blocksPerColumn * 8);
+  const block = new Float32Array(64);
+  const temp = new Float32Array(64);
+  for (let by = 0; by < c.blocksPerColumn; by++) {
+    for (let bx = 0; bx < c.blocksPerLine; bx++) {
+      const o = 64 * (by * c.blocksPerLine + bx);
+      for (let i = 0; i < 64; i++) block[i] = c.coefficients[o + i] * quant[i];
+      // 先對每列（水平頻率 u）做一維 IDCT，再對每行
+      for (let v = 0; v < 8; v++) {
+        for (let x = 0; x < 8; x++) {
+          let sum = 0;
+          for (let u = 0; u < 8; u++) sum += IDCT_TABLE[x * 8 + u] * block[v * 8 + u];
+          temp[v * 8 + x] = sum;
+        }
+      }
+      for (let x = 0; x < 8; x++) {
+        for (let y = 0; y < 8; y++) {
+          let sum = 0;
+          for (let v = 0; v < 8; v++) sum += IDCT_TABLE[y * 8 + v] * temp[v * 8 + x];
+          const value = Math.round(sum + 128);
+          plane[(by * 8 + y) * lineWidth + bx * 8 + x] = value < 0 ? 0 : value > 255 ? 255 : value;
+        }
+      }
+    }
+  }
+  return plane;
+}
+
+const clamp255 = (v: number): number => (v < 0 ? 0 : v > 255 ? 255 : v);
+
+/**
+ * 解碼 JPEG 為 RGBA 像素
+ */
+export function decodeJpeg(data: Uint8Array): RawPixels {
+  if (!isJpeg(data)) throw new Error('Not a JPEG file.');
+  const quantTables: Uint16Array[] = [];
+  const dcTables: HuffmanTable[] = [];
+  const acTables: HuffmanTable[] = [];
+  let frame: Frame | null = null;
+  let restartInterval = 0;
+  // Adobe APP14 的色彩轉換旗標：0 = 不轉換（RGB / CMYK）、1 = YCbCr、2 = YCCK
+  let adobeTransform: number | null = null;
+
+  let p = 2;
+  while (p < data.length) {
+    if (data[p] !== 0xff) {
+      p++;
+      continue;
+    }
+    const marker = (data[p] << 8) | data[p + 1];
+    p += 2;
+    if (marker === 0xffff || marker === 0xff00) {
+      p--;
+      continue;
+    }
+    if (marker === 0xffd9) break;
+    if (isRestartMarker(marker) || marker === 0xffd8 || marker === 0xff01) continue;
+    const length = (data[p] << 8) | data[p + 1];
+    const segment = data.subarray(p + 2, p + length);
+    const next = p + length;
+
+    switch (marker) {
+      case 0xffdb: {
+        for (let i = 0; i < segment.length;) {
+          const precision = segment[i] >> 4;
+          const id = segment[i++] & 15;
+          const table = new Uint16Array(64);
+          for (let k = 0; k < 64; k++) {
+            table[ZIGZAG[k]] = precision ? (segment[i] << 8) | segment[i + 1] : segment[i];
+            i += precision ? 2 : 1;
+          }
+          quantTables[id] = table;
+        }
+        break;
+      }
+      case 0xffc4: {
+        for (let i = 0; i < segment.length;) {
+          const tableClass = segment[i] >> 4;
+          const id = segment[i++] & 15;
+          const counts = segment.subarray(i, i + 16);
+          i += 16;
+          const total = counts.reduce((sum, n) => sum + n, 0);
+          const table = buildHuffmanTable(counts, segment.slice(i, i + total));
+          i += total;
+          (tableClass === 0 ? dcTables : acTables)[id] = table;
+        }
+        break;
+      }
+      case 0xffdd:
+        restartInterval = (segment[0] << 8) | segment[1];
+        break;
+      case 0xffee:
+        if (String.fromCharCode(...segment.subarray(0, 5)) === 'Adobe') adobeTransform = segment[11];
+        break;
+      case 0xffc0:
+      case 0xffc1:
+      case 0xffc2: {
+        const height = (segment[1] << 8) | segment[2];
+        const width = (segment[3] << 8) | segment[4];
+        if (width < 1 || height < 1) throw new Error('JPEG has no pixels (DNL is not supported).');
+        const count = segment[5];
+        const parsed: { id: number; h: number; v: number; quantTable: number }[] = [];
+        for (let i = 0; i < count; i++) {
+          const o = 6 + i * 3;
+          parsed.push({ id: segment[o], h: segment[o + 1] >> 4 || 1, v: segment[o + 1] & 15 || 1, quantTable: segment[o + 2] });
+        }
+        const maxH = Math.max(...parsed.map((c) => c.h));
+        const maxV = Math.max(...parsed.map((c) => c.v));
+        const mcusPerLine = Math.ceil(width / (8 * maxH));
+        const mcusPerColumn = Math.ceil(height / (8 * maxV));
+        frame = {
+          progressive: marker === 0xffc2,
+          width,
+          height,
+          maxH,
+          maxV,
+          mcusPerLine,
+          mcusPerColumn,
+          components: parsed.map((c) => {
+            const blocksPerLine = mcusPerLine * c.h;
+            const blocksPerColumn = mcusPerColumn * c.v;
+            return {
+              ...c,
+              blocksPerLine,
+              blocksPerColumn,
+              usedBlocksPerLine: Math.ceil(Math.ceil((width * c.h) / maxH) / 8),
+              usedBlocksPerColumn: Math.ceil(Math.ceil((height * c.v) / maxV) / 8),
+              coefficients: new Int16Array(blocksPerLine * blocksPerColumn * 64),
+              pred: 0,
+            };
+          }),
+        };
+        break;
+      }
+      case 0xffda: {
+        if (!frame) throw new Error('JPEG scan appears before the frame header.');
+        const count = segment[0];
+        const scanComponents: FrameComponent[] = [];
+        for (let i = 0; i < count; i++) {
+          const c = frame.components.find((fc) => fc.id === segment[1 + i * 2]);
+          if (!c) throw new Error('JPEG scan references an unknown component.');
+          const tables = segment[2 + i * 2];
+          c.dcTable = dcTables[tables >> 4];
+          c.acTable = acTables[tables & 15];
+          scanComponents.push(c);
+        }
+        const o = 1 + count * 2;
+        p = decodeScan(data, next, frame, scanComponents, restartInterval,
+          segment[o], segment[o + 1], segment[o + 2] >> 4, segment[o + 2] & 15);
+        continue;
+      }
+      default:
+        if ((marker >= 0xffc3 && marker <= 0xffcf) && marker !== 0xffc4 && marker !== 0xffc8 && marker !== 0xffcc) {
+          throw new Error('Unsupported JPEG encoding (only baseline and progressive Huffman JPEG are supported).');
+        }
+    }
+    p = next;
+  }
+  if (!frame) throw new Error('JPEG is missing the frame header.');
+
+  const { width, height, maxH, maxV, components } = frame;
+  const planes = components.map((c) => {
+    const quant = quantTables[c.quantTable];
+    if (!quant) throw new Error('JPEG references a missing quantization table.');
+    return buildPlane(c, quant);
+  });
+  // 讀取成分 i 在影像座標 (x, y) 的樣本（次取樣的成分以最近鄰放大）
+  const at = (i: number, x: number, y: number): number => {
+    const c = components[i];
+    const sx = Math.floor((x * c.h) / maxH);
+    const sy = Math.floor((y * c.v) / maxV);
+    return planes[i][sy * c.blocksPerLine * 8 + sx];
+  };
+  // RGB 以成分 id 'R' 'G' 'B' 標記或 Adobe transform = 0
+  const isRgb = components.length === 3
+    && (adobeTransform === 0 || (components[0].id === 0x52 && components[1].id === 0x47 && components[2].id === 0x42));
+  const isYcck = components.length === 4 && adobeTransform === 2;
+
+  const out = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      let r: number;
+      let g: number;
+      let b: number;
+      if (components.length < 3) {
+        r = g = b = at(0, x, y);
+      } else {
+        const c0 = at(0, x, y);
+        const c1 = at(1, x, y);
+        const c2 = at(2, x, y);
+        if (isRgb) {
+          r = c0;
+          g = c1;
+          b = c2;
+        } else if (components.length === 3 || isYcck) {
+          r = clamp255(c0 + 1.402 * (c2 - 128));
+          g = clamp255(c0 - 0.344136 * (c1 - 128) - 0.714136 * (c2 - 128));
+          b = clamp255(c0 + 1.772 * (c1 - 128));
+        } else {
+          r = c0;
+          g = c1;
+          b = c2;
+        }
+        if (components.length === 4) {
+          // Adobe 的 CMYK 以反相儲存：r = (1 - C)(1 - K)，其餘檔案則為一般 CMYK
+          const k = at(3, x, y);
+          if (adobeTransform !== null) {
+            r = (r * k) / 255;
+            g = (g * k) / 255;
+            b = (b * k) / 255;
+          } else {
+            r = ((255 - r) * (255 - k)) / 255;
+            g = ((255 - g) * (255 - k)) / 255;
+            b = ((255 - b) * (255 - k)) / 255;
+          }
+        }
+      }
+      out[o] = r;
+      out[o + 1] = g;
+      out[o + 2] = b;
+      out[o + 3] = 255;
+    }
+  }
+  return { width, height, data: out };
+}
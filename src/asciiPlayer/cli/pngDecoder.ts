@@ -0,0 +1,199 @@
+// pngDecoder.ts
+// PNG 解碼器（Node 用，以 zlib 解壓 IDAT）：支援所有色彩類型與位元深度、調色盤、tRNS 與 Adam7 交錯
+// 16 bit 樣本只取高位元組；不驗證區塊的 CRC
+
+import { inflateSync } from 'node:zlib';
+import type { RawPixels } from '../sampling';
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// 色彩類型對應的通道數：0 灰階、2 RGB、3 調色盤、4 灰階 + alpha、6 RGBA
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Adam7 的七個 pass：起點與間距 [x0, y0, dx, dy]
+const ADAM7 = [
+  [0, 0, 8, 8],
+  [4, 0, 8, 8],
+  [0, 4, 4, 8],
+  [2, 0, 4, 4],
+  [0, 2, 2, 4],
+  [1, 0, 2, 2],
+  [0, 1, 1, 2],
+];
+
+interface PngHeader {
+  width: number;
+  height: number;
+  depth: number;
+  colorType: number;
+  interlace: number;
+}
+
+/**
+ * 檢查是否為 PNG 檔頭
+ */
+export function isPng(data: Uint8Array): boolean {
+  return SIGNATURE.every((b, i) => data[i] === b);
+}
+
+function readU32(data: Uint8Array, p: number): number {
+  return ((data[p] << 24) | (data[p + 1] << 16) | (data[p + 2] << 8) | data[p + 3]) >>> 0;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * 還原一個 pass 的掃描線過濾，回傳不含過濾位元組的資料
+ */
+function unfilter(data: Uint8Array, offset: number, stride: number, rows: number, bpp: number): Uint8Array {
+  const out = new Uint8Array(stride * rows);
+  for (let y = 0; y < rows; y++) {
+    const filter = data[offset + y * (stride + 1)];
+    const src = offset + y * (stride + 1) + 1;
+    const line = y * stride;
+    const prev = line - stride;
+    for (let x = 0; x < stride; x++) {
+      const raw = data[src + x];
+      const a = x >= bpp ? out[line + x - bpp] : 0;
+      const b = y > 0 ? out[prev + x] : 0;
+      const c = x >= bpp && y > 0 ? out[prev + x - bpp] : 0;
+      switch (filter) {
+        case 0: out[line + x] = raw; break;
+        case 1: out[line + x] = raw + a; break;
+        case 2: out[line + x] = raw + b; break;
+        case 3: out[line + x] = raw + ((a + b) >> 1); break;
+        case 4: out[line + x] = raw + paeth(a, b, c); break;
+        default: throw new Error(`Invalid PNG filter type ${filter}.`);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * 解碼 PNG 為 RGBA 像素
+ */
+export function decodePng(data: Uint8Array): RawPixels {
+  if (!isPng(data)) throw new Error('Not a PNG file.');
+  let header: PngHeader | null = null;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+
+  let p = SIGNATURE.length;
+  while (p + 8 <= data.length) {
+    const length = readU32(data, p);
+    const type = String.fromCharCode(data[p + 4], data[p + 5], data[p + 6], data[p + 7]);
+    const body = data.subarray(p + 8, p + 8 + length);
+    p += 12 + length;
+    if (type === 'IHDR') {
+      header = {
+        width: readU32(body, 0),
+        height: readU32(body, 4),
+        depth: body[8],
+        colorType: body[9],
+        interlace: body[12],
+      };
+    } else if (type === 'PLTE') {
+      palette = body;
+    } else if (type === 'tRNS') {
+      transparency = body;
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    } else if (type === 'IEND') {
+      break;
+    }
+  }
+  if (!header) throw new Error('PNG is missing the IHDR chunk.');
+  const { width, height, depth, colorType, interlace } = header;
+  const channels = CHANNELS[colorType];
+  if (!channels || ![1, 2, 4, 8, 16].includes(depth)) {
+    throw new Error(`Unsupported PNG format (color type ${colorType}, bit depth ${depth}).`);
+  }
+  if (width < 1 || height < 1) throw new Error('PNG has no pixels.');
+  if (colorType === 3 && !palette) throw new Error('PNG is missing the PLTE chunk.');
+
+  const inflated = inflateSync(Buffer.concat(idat));
+  const bitsPerPixel = channels * depth;
+  const bpp = Math.max(1, bitsPerPixel >> 3);
+  const maxSample = (1 << Math.min(depth, 8)) - 1;
+  const out = new Uint8ClampedArray(width * height * 4);
+
+  // 讀取一列中第 x 個像素的第 c 個樣本（原始位元深度）
+  const sample = (line: Uint8Array, base: number, x: number, c: number): number => {
+    if (depth === 8) return line[base + x * channels + c];
+    if (depth === 16) {
+      const i = base + (x * channels + c) * 2;
+      return (line[i] << 8) | line[i + 1];
+    }
+    const bit = (x * channels + c) * depth;
+    return (line[base + (bit >> 3)] >> (8 - depth - (bit & 7))) & maxSample;
+  };
+  // 原始樣本轉成 0~255
+  const scale = (v: number): number => (depth === 16 ? v >> 8 : depth === 8 ? v : Math.round((v * 255) / maxSample));
+
+  const writePass = (pixels: Uint8Array, passWidth: number, passHeight: number, x0: number, y0: number, dx: number, dy: number) => {
+    const stride = Math.ceil((passWidth * bitsPerPixel) / 8);
+    for (let y = 0; y < passHeight; y++) {
+      const base = y * stride;
+      for (let x = 0; x < passWidth; x++) {
+        const o = ((y0 + y * dy) * width + x0 + x * dx) * 4;
+        let r: number;
+        let g: number;
+        let b: number;
+        let a = 255;
+        if (colorType === 3) {
+          const index = sample(pixels, base, x, 0);
+          r = palette![index * 3];
+          g = palette![index * 3 + 1];
+          b = palette![index * 3 + 2];
+          if (transparency && index < transparency.length) a = transparency[index];
+        } else if (colorType === 0 || colorType === 4) {
+          const v = sample(pixels, base, x, 0);
+          r = g = b = scale(v);
+          if (colorType === 4) a = scale(sample(pixels, base, x, 1));
+          else if (transparency && v === ((transparency[0] << 8) | transparency[1])) a = 0;
+        } else {
+          const rv = sample(pixels, base, x, 0);
+          const gv = sample(pixels, base, x, 1);
+          const bv = sample(pixels, base, x, 2);
+          r = scale(rv);
+          g = scale(gv);
+          b = scale(bv);
+          if (colorType === 6) a = scale(sample(pixels, base, x, 3));
+          else if (transparency
+            && rv === ((transparency[0] << 8) | transparency[1])
+            && gv === ((transparency[2] << 8) | transparency[3])
+            && bv === ((transparency[4] << 8) | transparency[5])) a = 0;
+        }
+        out[o] = r;
+        out[o + 1] = g;
+        out[o + 2] = b;
+        out[o + 3] = a;
+      }
+    }
+  };
+
+  if (interlace === 1) {
+    let offset = 0;
+    for (const [x0, y0, dx, dy] of ADAM7) {
+      const passWidth = Math.ceil((width - x0) / dx);
+      const passHeight = Math.ceil((height - y0) / dy);
+      if (passWidth <= 0 || passHeight <= 0) continue;
+      const stride = Math.ceil((passWidth * bitsPerPixel) / 8);
+      writePass(unfilter(inflated, offset, stride, passHeight, bpp), passWidth, passHeight, x0, y0, dx, dy);
+      offset += (stride + 1) * passHeight;
+    }
+  } else {
+    const stride = Math.ceil((width * bitsPerPixel) / 8);
+    writePass(unfilter(inflated, 0, stride, height, bpp), width, height, 0, 0, 1, 1);
+  }
+  return { width, height, data: out };
+}
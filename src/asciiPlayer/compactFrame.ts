@@ -0,0 +1,200 @@
+// compactFrame.ts
+// 精簡幀格式：以 Uint8Array 存字元索引，避免每幀為每格配置一個字串
+// 另提供幀差異（變動區段）與舊格式 string[][] / 純文字的互轉
+
+import type { AsciiFrame } from './asciiConverter';
+import type { CellColors } from './sampling';
+
+/**
+ * 精簡幀
+ * - glyphs: 每格在 charset 中的索引，長度為 cols * rows（逐列排列）
+ * - charset: 索引對應的字元，最多 256 個
+ * - colors: 每格顏色（未開啟彩色模式時為 null）
+ */
+export interface CompactFrame {
+  cols: number;
+  rows: number;
+  charset: string[];
+  glyphs: Uint8Array;
+  colors: CellColors | null;
+}
+
+/**
+ * 同一列中連續變動的格子
+ */
+export interface FrameRun {
+  row: number;
+  start: number;
+  length: number;
+}
+
+export const MAX_CHARSET_SIZE = 256;
+
+/**
+ * 把字元集字串依碼位拆成字元（emoji 等擴充平面字元不會被拆成代理對）
+ * 字元數不在 1 ~ MAX_CHARSET_SIZE 之間時拋出錯誤
+ */
+export function splitCharset(chars: string): string[] {
+  const charset = Array.from(chars);
+  if (charset.length === 0 || charset.length > MAX_CHARSET_SIZE) {
+    throw new Error(`Charset must contain 1 to ${MAX_CHARSET_SIZE} glyphs (got ${charset.length}).`);
+  }
+  return charset;
+}
+
+/**
+ * 建立空白幀（所有格子為 charset[0]）
+ */
+export function createCompactFrame(cols: number, rows: number, charset: string[], colors: CellColors | null = null): CompactFrame {
+  if (charset.length === 0 || charset.length > MAX_CHARSET_SIZE) {
+    throw new Error(`Charset must contain 1 to ${MAX_CHARSET_SIZE} glyphs (got ${charset.length}).`);
+  }
+  return { cols, rows, charset, glyphs: new Uint8Array(cols * rows), colors };
+}
+
+/**
+ * 取得指定格的字元
+ */
+export function glyphAt(frame: CompactFrame, x: number, y: number): string {
+  return frame.charset[frame.glyphs[y * frame.cols + x]];
+}
+
+/**
+ * 建立字元到索引的查表；charset 中未出現的字元會依序附加在後面
+ */
+function indexCharset(charset: string[]): { charset: string[]; index: Map<string, number> } {
+  if (charset.length > MAX_CHARSET_SIZE) {
+    throw new Error(`Charset must contain at most ${MAX_CHARSET_SIZE} glyphs (got ${charset.length}).`);
+  }
+  const list = charset.slice();
+  const index = new Map<string, number>();
+  list.forEach((ch, i) => {
+    if (!index.has(ch)) index.set(ch, i);
+  });
+  return { charset: list, index };
+}
+
+function lookupGlyph(ch: string, charset: string[], index: Map<string, number>): number {
+  let i = index.get(ch);
+  if (i === undefined) {
+    if (charset.length >= MAX_CHARSET_SIZE) {
+      throw new Error(`Frame uses more than ${MAX_CHARSET_SIZE} distinct glyphs.`);
+    }
+    i = charset.length;
+    charset.push(ch);
+    index.set(ch, i);
+  }
+  return i;
+}
+
+/**
+ * 由舊格式 string[][] 轉成精簡幀
+ * charset 可指定索引順序（例如目前的字元集），未指定時依出現順序建立
+ * 較短的列以空白補齊
+ */
+export function fromAsciiFrame(frame: AsciiFrame, colors: CellColors | null = null, charset: string | string[] = []): CompactFrame {
+  const rows = frame.length;
+  const cols = frame.reduce((max, row) => Math.max(max, row.length), 0);
+  const table = indexCharset(typeof charset === 'string' ? Array.from(charset) : charset);
+  const glyphs = new Uint8Array(cols * rows);
+  for (let y = 0; y < rows; y++) {
+    const row = frame[y];
+    for (let x = 0; x < cols; x++) {
+      glyphs[y * cols + x] = lookupGlyph(row[x] ?? ' ', table.charset, table.index);
+    }
+  }
+  if (table.charset.length === 0) table.charset.push(' ');
+  return { cols, rows, charset: table.charset, glyphs, colors };
+}
+
+/**
+ * 轉回舊格式 string[][]
+ */
+export function toAsciiFrame(frame: CompactFrame): AsciiFrame {
+  const { cols, rows, charset, glyphs } = frame;
+  const out: AsciiFrame = [];
+  for (let y = 0; y < rows; y++) {
+    const row = new Array<string>(cols);
+    for (let x = 0; x < cols; x++) row[x] = charset[glyphs[y * cols + x]];
+    out.push(row);
+  }
+  return out;
+}
+
+/**
+ * 轉成純文字，每列以 eol 分隔
+ */
+export function toText(frame: CompactFrame, eol = '\n'): string {
+  const { cols, rows, charset, glyphs } = frame;
+  const lines: string[] = [];
+  for (let y = 0; y < rows; y++) {
+    let line = '';
+    for (let x = 0; x < cols; x++) line += charset[glyphs[y * cols + x]];
+    lines.push(line);
+  }
+  return lines.join(eol);
+}
+
+/**
+ * 由純文字建立精簡幀（接受 \n 或 \r\n 換行）
+ */
+export function fromText(text: string, charset: string | string[] = []): CompactFrame {
+  const lines = text.split(/\r?\n/);
+  return fromAsciiFrame(lines.map((line) => Array.from(line)), null, charset);
+}
+
+// 兩幀同一格的顏色是否相同
+function sameColor(a: Uint8ClampedArray | undefined, b: Uint8ClampedArray | undefined, o: number): boolean {
+  if (!a || !b) return a === b;
+  return a[o] === b[o] && a[o + 1] === b[o + 1] && a[o + 2] === b[o + 2];
+}
+
+/**
+ * 比較兩幀，回傳每列中連續變動的格子區段
+ * 尺寸或彩色設定不同（或 prev 為 null）時，整幀視為變動
+ * 兩幀的 charset 可以不同，比較的是實際字元
+ */
+export function diffFrames(prev: CompactFrame | null, next: CompactFrame): FrameRun[] {
+  const { cols, rows } = next;
+  const runs: FrameRun[] = [];
+  const pc = prev?.colors ?? null;
+  const nc = next.colors;
+  if (!prev || prev.cols !== cols || prev.rows !== rows || !pc !== !nc || !pc?.bg !== !nc?.bg) {
+    if (cols > 0) {
+      for (let y = 0; y < rows; y++) runs.push({ row: y, start: 0, length: cols });
+    }
+    return runs;
+  }
+
+  const sameCharset = prev.charset === next.charset
+    || (prev.charset.length === next.charset.length && prev.charset.every((ch, i) => ch === next.charset[i]));
+  for (let y = 0; y < rows; y++) {
+    let start = -1;
+    for (let x = 0; x <= cols; x++) {
+      let changed = false;
+      if (x < cols) {
+        const i = y * cols + x;
+        const a = prev.glyphs[i];
+        const b = next.glyphs[i];
+        changed = sameCharset ? a !== b : prev.charset[a] !== next.charset[b];
+        if (!changed && pc && nc) {
+          changed = !sameColor(pc.rgb, nc.rgb, i * 3) || !sameColor(pc.bg, nc.bg, i * 3);
+        }
+      }
+      if (changed && start < 0) {
+        start = x;
+      } else if (!changed && start >= 0) {
+        runs.push({ row: y, start, length: x - start });
+        start = -1;
+      }
+    }
+  }
+  return runs;
+}
+
+/**
+ * 區段涵蓋的格子總數
+ */
+export function countRunCells(runs: FrameRun[]): number {
+  return runs.reduce((sum, run) => sum + run.length, 0);
+}
@@ -0,0 +1,136 @@
+// dither.ts
+// 將亮度格量化成字元階層，支援誤差擴散與有序抖動
+
+export type DitherMode = 'none' | 'floyd-steinberg' | 'atkinson' | 'bayer2' | 'bayer4' | 'bayer8';
+
+/**
+ * 跨幀保留的抖動狀態，用來抑制誤差擴散造成的閃爍
+ */
+export interface DitherState {
+  cols: number;
+  rows: number;
+  levels: Uint8Array | null;
+}
+
+export interface DitherOptions {
+  /** 誤差擴散的強度 0~1（1 = 完整擴散） */
+  strength?: number;
+  /** 上一幀的狀態；傳入後會就地更新 */
+  state?: DitherState;
+}
+
+// 前一幀的階層只要還在 0.5 + HYSTERESIS 個階距內就沿用，避免影片雜訊造成閃爍
+const HYSTERESIS = 0.2;
+
+// [dx, dy, weight]
+const FLOYD_STEINBERG: [number, number, number][] = [
+  [1, 0, 7 / 16], [-1, 1, 3 / 16], [0, 1, 5 / 16], [1, 1, 1 / 16],
+];
+const ATKINSON: [number, number, number][] = [
+  [1, 0, 1 / 8], [2, 0, 1 / 8], [-1, 1, 1 / 8], [0, 1, 1 / 8], [1, 1, 1 / 8], [0, 2, 1 / 8],
+];
+
+/**
+ * 建立 n x n（n 為 2 的次方）的 Bayer 門檻矩陣，值為 0 ~ n*n-1
+ */
+function bayerMatrix(n: number): number[][] {
+  if (n === 1) return [[0]];
+  const half = bayerMatrix(n / 2);
+  const m: number[][] = Array.from({ length: n }, () => new Array<number>(n));
+  for (let y = 0; y < n / 2; y++) {
+    for (let x = 0; x < n / 2; x++) {
+      const v = half[y][x] * 4;
+      m[y][x] = v;
+      m[y][x + n / 2] = v + 2;
+      m[y + n / 2][x] = v + 3;
+      m[y + n / 2][x + n / 2] = v + 1;
+    }
+  }
+  return m;
+}
+
+const BAYER: Record<'bayer2' | 'bayer4' | 'bayer8', number[][]> = {
+  bayer2: bayerMatrix(2),
+  bayer4: bayerMatrix(4),
+  bayer8: bayerMatrix(8),
+};
+
+/**
+ * 將 0~255 的亮度格量化成 0 ~ levelCount-1 的階層
+ */
+export function quantizeLevels(
+  values: Float32Array,
+  cols: number,
+  rows: number,
+  levelCount: number,
+  mode: DitherMode = 'none',
+  options: DitherOptions = {},
+): Uint8Array {
+  const out = new Uint8Array(cols * rows);
+  const maxLevel = Math.max(0, levelCount - 1);
+  if (maxLevel === 0) return out;
+  const stepSize = 255 / maxLevel;
+
+  if (mode === 'none') {
+    for (let i = 0; i < values.length; i++) {
+      out[i] = Math.floor((values[i] / 255) * maxLevel);
+    }
+    return out;
+  }
+
+  if (mode === 'bayer2' || mode === 'bayer4' || mode === 'bayer8') {
+    // 以格子座標取門檻，畫面不動時結果就不變
+    const m = BAYER[mode];
+    const n = m.length;
+    const nn = n * n;
+    for (let y = 0; y < rows; y++) {
+      for (let x = 0; x < cols; x++) {
+        const i = y * cols + x;
+        const offset = ((m[y % n][x % n] + 0.5) / nn - 0.5) * stepSize;
+        const q = Math.round((values[i] + offset) / stepSize);
+        out[i] = q < 0 ? 0 : q > maxLevel ? maxLevel : q;
+      }
+    }
+    return out;
+  }
+
+  const kernel = mode === 'atkinson' ? ATKINSON : FLOYD_STEINBERG;
+  const strength = Math.max(0, Math.min(1, options.strength ?? 1));
+  const state = options.state;
+  const prev = state && state.levels && state.cols === cols && state.rows === rows ? state.levels : null;
+  const buf = Float32Array.from(values);
+  // 固定由左到右、由上到下掃描（不使用蛇形），讓相同輸入得到相同輸出
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const i = y * cols + x;
+      const old = buf[i];
+      let q = Math.round(old / stepSize);
+      q = q < 0 ? 0 : q > maxLevel ? maxLevel : q;
+      if (prev && Math.abs(old - prev[i] * stepSize) < (0.5 + HYSTERESIS) * stepSize) {
+        q = prev[i];
+      }
+      out[i] = q;
+      const err = (old - q * stepSize) * strength;
+      if (err === 0) continue;
+      for (const [dx, dy, w] of kernel) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= cols || ny >= rows) continue;
+        buf[ny * cols + nx] += err * w;
+      }
+    }
+  }
+  if (state) {
+    state.cols = cols;
+    state.rows = rows;
+    state.levels = out.slice();
+  }
+  return out;
+}
+
+/**
+ * 建立空的抖動狀態
+ */
+export function createDitherState(): DitherState {
+  return { cols: 0, rows: 0, levels: null };
+}
@@ -0,0 +1,90 @@
+// edgeGlyphs.ts
+// 以 Sobel 梯度找出每格的邊緣強度與方向，挑選方向性字元
+
+import { gridSize, sampleLuminanceGrid } from './sampling';
+import type { LuminanceModel, RawPixels } from './sampling';
+
+export const DEFAULT_EDGE_THRESHOLD = 0.25;
+export const DEFAULT_EDGE_BLEND = 0.5;
+
+/**
+ * 每格的邊緣資訊
+ * - magnitude: 0~1 的平均梯度強度
+ * - angle: 梯度方向（弧度，-π/2 ~ π/2，0 表示左右方向的亮度變化，即垂直邊緣）
+ * - centroidY: 邊緣在格內的垂直重心 0~1（用來區分 - 與 _）
+ */
+export interface EdgeField {
+  cols: number;
+  rows: number;
+  magnitude: Float32Array;
+  angle: Float32Array;
+  centroidY: Float32Array;
+}
+
+// Sobel 在 0~255 亮度上的理論最大值約為 4 * 255（單一方向）
+const SOBEL_NORM = 4 * 255;
+
+/**
+ * 計算每個 stepX x stepY 格子的邊緣強度與方向
+ * 梯度在約半格大小的子格上計算，方向以倍角平均避免相反梯度互相抵消
+ */
+export function computeEdgeField(pixels: RawPixels, stepX: number, stepY: number = stepX, model: LuminanceModel = 'rec601'): EdgeField {
+  const sx = Math.max(1, stepX);
+  const sy = Math.max(1, stepY);
+  const subX = Math.max(1, sx / 2);
+  const subY = Math.max(1, sy / 2);
+  const sub = sampleLuminanceGrid(pixels, subX, subY, model);
+  const { cols, rows } = gridSize(pixels.width, pixels.height, sx, sy);
+  const n = cols * rows;
+  const magSum = new Float32Array(n);
+  const cosSum = new Float32Array(n);
+  const sinSum = new Float32Array(n);
+  const ySum = new Float32Array(n);
+  const count = new Uint16Array(n);
+
+  const { cols: sw, rows: sh, values: v } = sub;
+  const at = (x: number, y: number) => v[Math.min(sh - 1, Math.max(0, y)) * sw + Math.min(sw - 1, Math.max(0, x))];
+  for (let y = 0; y < sh; y++) {
+    const cy = Math.min(rows - 1, Math.floor((y * subY) / sy));
+    const localY = ((y + 0.5) * subY - cy * sy) / sy;
+    for (let x = 0; x < sw; x++) {
+      const gx = at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1)
+        - at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1);
+      const gy = at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1)
+        - at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1);
+      const mag = Math.min(1, Math.hypot(gx, gy) / SOBEL_NORM);
+      const cx = Math.min(cols - 1, Math.floor((x * subX) / sx));
+      const i = cy * cols + cx;
+      count[i]++;
+      if (mag === 0) continue;
+      // 倍角表示：(gx² - gy², 2gxgy) 以強度加權
+      const norm = mag / (gx * gx + gy * gy);
+      cosSum[i] += (gx * gx - gy * gy) * norm;
+      sinSum[i] += 2 * gx * gy * norm;
+      magSum[i] += mag;
+      ySum[i] += localY * mag;
+    }
+  }
+
+  const magnitude = new Float32Array(n);
+  const angle = new Float32Array(n);
+  const centroidY = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    if (count[i] === 0) continue;
+    magnitude[i] = magSum[i] / count[i];
+    angle[i] = Math.atan2(sinSum[i], cosSum[i]) / 2;
+    centroidY[i] = magSum[i] > 0 ? ySum[i] / magSum[i] : 0.5;
+  }
+  return { cols, rows, magnitude, angle, centroidY };
+}
+
+/**
+ * 依梯度方向挑選邊緣字元（螢幕座標 y 向下）
+ */
+export function edgeGlyph(angle: number, centroidY: number): string {
+  const deg = (angle * 180) / Math.PI;
+  if (Math.abs(deg) < 22.5) return '|';
+  if (deg >= 22.5 && deg < 67.5) return '/';
+  if (deg <= -22.5 && deg > -67.5) return '\\';
+  return centroidY > 0.65 ? '_' : '-';
+}
@@ -0,0 +1,452 @@
+// frameSource.ts
+// 播放器的輸入來源：影片、MediaStream、靜態圖片、canvas 與動畫幀（GIF 等）
+// 影片類來源沿用 video 元素的時間軸，其他來源由這裡自行計時
+
+import { TypedEventEmitter } from './playerEvents';
+import type { PlaybackEvent } from './playerEvents';
+
+/**
+ * 來源種類
+ * - video: 一般影片
+ * - stream: MediaStream（攝影機、螢幕分享、canvas.captureStream()）
+ * - image: 靜態圖片或 ImageBitmap，只需轉換一次
+ * - canvas: 會持續變化的 canvas / OffscreenCanvas，播放時每個動畫幀都重新轉換
+ * - frames: 預先解碼的動畫幀
+ */
+export type FrameSourceKind = 'video' | 'stream' | 'image' | 'canvas' | 'frames';
+
+/**
+ * 動畫中的一幀；duration 為顯示時間（ms）
+ */
+export interface AnimationFrame {
+  image: CanvasImageSource;
+  duration: number;
+}
+
+export type FrameSourceInput = HTMLVideoElement | MediaStream | CanvasImageSource | AnimationFrame[];
+
+export interface FrameSourceEvents {
+  play: PlaybackEvent;
+  pause: PlaybackEvent;
+  ended: PlaybackEvent;
+  seeked: PlaybackEvent;
+}
+
+export type FrameCallback = (now: number, metadata?: VideoFrameCallbackMetadata) => void;
+
+// 轉送給播放器的 video 元素事件
+const VIDEO_EVENTS = ['play', 'pause', 'ended', 'seeked'] as const;
+// 瀏覽器對過短的 GIF 幀延遲一律以 100ms 顯示
+const MIN_GIF_FRAME_MS = 10;
+const DEFAULT_GIF_FRAME_MS = 100;
+
+/**
+ * 所有來源共用的介面：尺寸、目前畫面、時間軸與畫面更新的排程
+ */
+export abstract class FrameSource extends TypedEventEmitter<FrameSourceEvents> {
+  abstract readonly kind: FrameSourceKind;
+  abstract get width(): number;
+  abstract get height(): number;
+  /** 目前畫面，可傳給 drawImage 或 createImageBitmap */
+  abstract get image(): CanvasImageSource;
+  /** 長度（秒）；靜態圖為 0，即時來源為 Infinity */
+  abstract get duration(): number;
+  abstract get currentTime(): number;
+  abstract get paused(): boolean;
+  abstract play(): Promise<void>;
+  abstract pause(): void;
+  /** 跳到指定時間（會限制在來源範圍內），完成後 resolve */
+  abstract seek(time: number): Promise<void>;
+  abstract setLoop(loop: boolean): void;
+  abstract setPlaybackRate(rate: number): void;
+
+  /**
+   * 目前畫面的編號，畫面沒變就不必重新轉換；-1 表示無法得知
+   */
+  frameIndex(): number {
+    return -1;
+  }
+
+  /**
+   * 前進或後退 delta 幀的目標時間；無法得知實際影格時依 frameRate 換算
+   */
+  stepTime(delta: number, frameRate: number): number {
+    return this.currentTime + delta / frameRate;
+  }
+
+  /**
+   * 是否可能有聲音；只有 video 元素（含 MediaStream）會播放聲音
+   */
+  get hasAudio(): boolean {
+    return false;
+  }
+
+  /**
+   * 設定靜音與音量（0~1）；沒有聲音的來源忽略
+   */
+  setAudio(_muted: boolean, _volume: number) {}
+
+  /**
+   * 排程下一次畫面更新，回傳取消函式
+   */
+  requestFrame(callback: FrameCallback): () => void {
+    const id = requestAnimationFrame((now) => callback(now));
+    return () => cancelAnimationFrame(id);
+  }
+
+  get frameClock(): 'video-frame' | 'animation-frame' {
+    return 'animation-frame';
+  }
+
+  destroy() {
+    this.removeAllListeners();
+  }
+
+  protected notify(type: keyof FrameSourceEvents) {
+    this.emit(type, { currentTime: this.currentTime });
+  }
+}
+
+/**
+ * 影片或 MediaStream（以 srcObject 掛在 video 元素上）
+ */
+export class VideoSource extends FrameSource {
+  readonly kind: FrameSourceKind;
+  readonly video: HTMLVideoElement;
+  private detach: () => void;
+
+  constructor(video: HTMLVideoElement) {
+    super();
+    this.video = video;
+    this.kind = video.srcObject instanceof MediaStream ? 'stream' : 'video';
+    const forward = (e: Event) => this.notify(e.type as keyof FrameSourceEvents);
+    for (const type of VIDEO_EVENTS) video.addEventListener(type, forward);
+    this.detach = () => {
+      for (const type of VIDEO_EVENTS) video.removeEventListener(type, forward);
+    };
+  }
+
+  get width() {
+    return this.video.videoWidth;
+  }
+
+  get height() {
+    return this.video.videoHeight;
+  }
+
+  get image(): CanvasImageSource {
+    return this.video;
+  }
+
+  get duration() {
+    const d = this.video.duration;
+    return Number.isNaN(d) ? 0 : d;
+  }
+
+  get currentTime() {
+    return this.video.currentTime;
+  }
+
+  get paused() {
+    return this.video.paused;
+  }
+
+  play() {
+    return this.video.play();
+  }
+
+  pause() {
+    this.video.pause();
+  }
+
+  seek(time: number): Promise<void> {
+    // 即時串流無法跳轉
+    if (this.kind === 'stream') return Promise.resolve();
+    const video = this.video;
+    const target = Math.min(Math.max(0, time), Number.isFinite(video.duration) ? video.duration : Infinity);
+    return new Promise((resolve) => {
+      video.addEventListener('seeked', () => resolve(), { once: true });
+      video.currentTime = target;
+    });
+  }
+
+  setLoop(loop: boolean) {
+    this.video.loop = loop;
+  }
+
+  setPlaybackRate(rate: number) {
+    // 即時串流的播放速度固定
+    if (this.kind !== 'stream') this.video.playbackRate = rate;
+  }
+
+  /**
+   * 聲音由 video 元素本身播放，暫停、跳轉與播放速度都會自動同步
+   */
+  get hasAudio(): boolean {
+    const stream = this.video.srcObject;
+    return stream instanceof MediaStream ? stream.getAudioTracks().length > 0 : true;
+  }
+
+  setAudio(muted: boolean, volume: number) {
+    this.video.muted = muted;
+    this.video.volume = volume;
+  }
+
+  /**
+   * 有 requestVideoFrameCallback 時只在影片產生新幀時回呼
+   */
+  requestFrame(callback: FrameCallback): () => void {
+    if (this.frameClock === 'animation-frame') return super.requestFrame(callback);
+    const id = this.video.requestVideoFrameCallback(callback);
+    return () => this.video.cancelVideoFrameCallback(id);
+  }
+
+  get frameClock(): 'video-frame' | 'animation-frame' {
+    return 'requestVideoFrameCallback' in this.video ? 'video-frame' : 'animation-frame';
+  }
+
+  destroy() {
+    this.detach();
+    super.destroy();
+  }
+}
+
+/**
+ * 自行計時的來源；行為比照 video 元素（播完不重播時先 pause 再 ended）
+ */
+abstract class TimelineSource extends FrameSource {
+  // 暫停時的時間，播放中則為開始計時的基準（秒）
+  private time = 0;
+  private startedAt: number | null = null;
+  private rate = 1;
+  private loop = true;
+
+  get paused() {
+    return this.startedAt === null;
+  }
+
+  get currentTime() {
+    if (this.startedAt === null) return this.time;
+    const t = this.time + ((performance.now() - this.startedAt) / 1000) * this.rate;
+    const d = this.duration;
+    if (t < d) return t;
+    return this.loop && d > 0 ? t % d : d;
+  }
+
+  play(): Promise<void> {
+    // 靜態圖沒有時間軸，不進入播放狀態
+    if (this.duration === 0 || this.startedAt !== null) return Promise.resolve();
+    if (this.time >= this.duration) this.time = 0;
+    this.startedAt = performance.now();
+    this.notify('play');
+    return Promise.resolve();
+  }
+
+  pause() {
+    if (this.startedAt === null) return;
+    this.time = this.currentTime;
+    this.startedAt = null;
+    this.notify('pause');
+  }
+
+  seek(time: number): Promise<void> {
+    this.time = Math.min(Math.max(0, time), this.duration);
+    if (this.startedAt !== null) this.startedAt = performance.now();
+    this.notify('seeked');
+    return Promise.resolve();
+  }
+
+  setLoop(loop: boolean) {
+    this.rebase();
+    this.loop = loop;
+  }
+
+  setPlaybackRate(rate: number) {
+    this.rebase();
+    this.rate = rate;
+  }
+
+  /**
+   * 播放到結尾且不重播時停在最後，並發出 pause 與 ended
+   */
+  requestFrame(callback: FrameCallback): () => void {
+    return super.requestFrame((now) => {
+      if (this.startedAt !== null && !this.loop && this.currentTime >= this.duration) {
+        this.time = this.duration;
+        this.startedAt = null;
+        this.notify('pause');
+        this.notify('ended');
+      }
+      callback(now);
+    });
+  }
+
+  // 改變速度或循環設定前，把已經過的時間結算進基準
+  private rebase() {
+    if (this.startedAt === null) return;
+    this.time = this.currentTime;
+    this.startedAt = performance.now();
+  }
+}
+
+/**
+ * 靜態圖片、ImageBitmap、VideoFrame 或 canvas
+ */
+export class ImageSource extends TimelineSource {
+  readonly kind: FrameSourceKind;
+  readonly source: CanvasImageSource;
+
+  constructor(image: CanvasImageSource) {
+    super();
+    this.source = image;
+    this.kind = isCanvas(image) ? 'canvas' : 'image';
+  }
+
+  get width() {
+    return imageSize(this.source).width;
+  }
+
+  get height() {
+    return imageSize(this.source).height;
+  }
+
+  get image() {
+    return this.source;
+  }
+
+  get duration() {
+    return this.kind === 'canvas' ? Infinity : 0;
+  }
+
+  frameIndex() {
+    return this.kind === 'canvas' ? -1 : 0;
+  }
+}
+
+/**
+ * 預先解碼的動畫幀
+ * owned 為 true 時 destroy() 會一併釋放幀（ImageBitmap / VideoFrame）
+ */
+export class FramesSource extends TimelineSource {
+  readonly kind: FrameSourceKind = 'frames';
+  readonly frames: AnimationFrame[];
+  private ends: number[] = [];
+  private owned: boolean;
+
+  constructor(frames: AnimationFrame[], owned = false) {
+    super();
+    if (frames.length === 0) throw new Error('An animation needs at least one frame.');
+    this.frames = frames;
+    this.owned = owned;
+    let t = 0;
+    for (const frame of frames) {
+      t += Math.max(1, frame.duration) / 1000;
+      this.ends.push(t);
+    }
+  }
+
+  get width() {
+    return imageSize(this.frames[0].image).width;
+  }
+
+  get height() {
+    return imageSize(this.frames[0].image).height;
+  }
+
+  get image() {
+    return this.frames[this.frameIndex()].image;
+  }
+
+  get duration() {
+    return this.ends[this.ends.length - 1];
+  }
+
+  /**
+   * 以二分搜尋找出目前時間所在的幀
+   */
+  frameIndex() {
+    const t = this.currentTime;
+    let lo = 0;
+    let hi = this.ends.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.ends[mid] > t) hi = mid;
+      else lo = mid + 1;
+    }
+    return lo;
+  }
+
+  /**
+   * 依實際的幀邊界前進或後退
+   */
+  stepTime(delta: number): number {
+    const i = Math.min(this.frames.length - 1, Math.max(0, this.frameIndex() + delta));
+    return i === 0 ? 0 : this.ends[i - 1];
+  }
+
+  destroy() {
+    if (this.owned) disposeAnimationFrames(this.frames);
+    super.destroy();
+  }
+}
+
+/**
+ * 依輸入型別建立來源；MediaStream 需要先掛到 video 元素上（見 VideoAsciiPlayer.loadStream）
+ */
+export function createFrameSource(input: Exclude<FrameSourceInput, MediaStream>): FrameSource {
+  if (Array.isArray(input)) return new FramesSource(input);
+  if (input instanceof HTMLVideoElement) return new VideoSource(input);
+  return new ImageSource(input);
+}
+
+/**
+ * 取得任一 CanvasImageSource 的像素尺寸
+ */
+export function imageSize(image: CanvasImageSource): { width: number; height: number } {
+  // 以屬性判斷型別，Worker 等沒有 DOM 類別的環境也能使用
+  if ('videoWidth' in image) return { width: image.videoWidth, height: image.videoHeight };
+  if ('naturalWidth' in image) return { width: image.naturalWidth, height: image.naturalHeight };
+  if ('displayWidth' in image) return { width: image.displayWidth, height: image.displayHeight };
+  if ('ownerSVGElement' in image) return { width: image.width.baseVal.value, height: image.height.baseVal.value };
+  return { width: image.width, height: image.height };
+}
+
+function isCanvas(image: CanvasImageSource): boolean {
+  return (typeof HTMLCanvasElement !== 'undefined' && image instanceof HTMLCanvasElement)
+    || (typeof OffscreenCanvas !== 'undefined' && image instanceof OffscreenCanvas);
+}
+
+/**
+ * 解碼動畫圖片（GIF、APNG、animated WebP）的所有幀
+ * 需要 WebCodecs 的 ImageDecoder；不支援時只取第一幀
+ */
+export async function decodeAnimation(data: Blob): Promise<AnimationFrame[]> {
+  if (typeof ImageDecoder === 'undefined' || !(await ImageDecoder.isTypeSupported(data.type))) {
+    return [{ image: await createImageBitmap(data), duration: DEFAULT_GIF_FRAME_MS }];
+  }
+  const decoder = new ImageDecoder({ data: data.stream(), type: data.type });
+  try {
+    // 以串流輸入時，frameCount 要等全部資料讀完才確定
+    await decoder.completed;
+    const count = decoder.tracks.selectedTrack?.frameCount ?? 1;
+    const frames: AnimationFrame[] = [];
+    for (let i = 0; i < count; i++) {
+      const { image } = await decoder.decode({ frameIndex: i });
+      // VideoFrame.duration 單位為微秒
+      const ms = (image.duration ?? 0) / 1000;
+      frames.push({ image, duration: ms > MIN_GIF_FRAME_MS ? ms : DEFAULT_GIF_FRAME_MS });
+    }
+    return frames;
+  } finally {
+    decoder.close();
+  }
+}
+
+/**
+ * 釋放動畫幀中的 ImageBitmap / VideoFrame
+ */
+export function disposeAnimationFrames(frames: AnimationFrame[]) {
+  for (const { image } of frames) {
+    if ('close' in image && typeof image.close === 'function') image.close();
+  }
+}
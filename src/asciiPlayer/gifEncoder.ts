@@ -0,0 +1,295 @@
+// gifEncoder.ts
+// 動態 GIF 編碼器：每幀以 median cut 建立最多 256 色的區域調色盤，再以 LZW 壓縮
+// 逐幀加入，不需要一次保存所有畫面
+
+// 直方圖以每通道 5 bit（共 32768 格）統計
+const HIST_BITS = 5;
+const HIST_SIZE = 1 << (HIST_BITS * 3);
+const MAX_COLORS = 256;
+const MAX_CODE = 4095;
+
+function histKey(r: number, g: number, b: number): number {
+  return ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+}
+
+/**
+ * 一幀的調色盤與每個直方圖格對應的顏色索引
+ */
+interface FramePalette {
+  colors: Uint8Array;
+  size: number;
+  lookup: Int16Array;
+}
+
+/**
+ * 以 median cut 從 RGBA 像素建立調色盤；顏色數不超過 256 時直接使用各格的平均色
+ */
+function buildPalette(rgba: Uint8ClampedArray): FramePalette {
+  const count = new Uint32Array(HIST_SIZE);
+  const sums = new Float64Array(HIST_SIZE * 3);
+  for (let i = 0; i < rgba.length; i += 4) {
+    const k = histKey(rgba[i], rgba[i + 1], rgba[i + 2]);
+    count[k]++;
+    sums[k * 3] += rgba[i];
+    sums[k * 3 + 1] += rgba[i + 1];
+    sums[k * 3 + 2] += rgba[i + 2];
+  }
+  const keys: number[] = [];
+  for (let k = 0; k < HIST_SIZE; k++) if (count[k] > 0) keys.push(k);
+
+  // 每個 box 是 keys 的一段 [start, end)
+  let boxes: { start: number; end: number }[] = [{ start: 0, end: keys.length }];
+  const channel = (k: number, c: number) => (k >> (10 - c * 5)) & 31;
+  while (boxes.length < MAX_COLORS) {
+    // 挑像素數 x 範圍最大、且還能切的 box
+    let best = -1;
+    let bestScore = 0;
+    let bestChannel = 0;
+    boxes.forEach((box, i) => {
+      if (box.end - box.start < 2) return;
+      let pixels = 0;
+      const min = [31, 31, 31];
+      const max = [0, 0, 0];
+      for (let j = box.start; j < box.end; j++) {
+        const k = keys[j];
+        pixels += count[k];
+        for (let c = 0; c < 3; c++) {
+          const v = channel(k, c);
+          if (v < min[c]) min[c] = v;
+          if (v > max[c]) max[c] = v;
+        }
+      }
+      const ranges = [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+      const c = ranges.indexOf(Math.max(...ranges));
+      const score = ranges[c] * pixels;
+      if (score > bestScore) {
+        bestScore = score;
+        best = i;
+        bestChannel = c;
+      }
+    });
+    if (best < 0) break;
+    const box = boxes[best];
+    const slice = keys.slice(box.start, box.end).sort((a, b) => channel(a, bestChannel) - channel(b, bestChannel));
+    for (let j = 0; j < slice.length; j++) keys[box.start + j] = slice[j];
+    // 依像素數切在中位數
+    let total = 0;
+    for (let j = box.start; j < box.end; j++) total += count[keys[j]];
+    let acc = 0;
+    let mid = box.start + 1;
+    for (let j = box.start; j < box.end - 1; j++) {
+      acc += count[keys[j]];
+      mid = j + 1;
+      if (acc >= total / 2) break;
+    }
+    boxes = [...boxes.slice(0, best), { start: box.start, end: mid }, { start: mid, end: box.end }, ...boxes.slice(best + 1)];
+  }
+
+  const colors = new Uint8Array(boxes.length * 3);
+  const lookup = new Int16Array(HIST_SIZE).fill(-1);
+  boxes.forEach((box, i) => {
+    let n = 0;
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    for (let j = box.start; j < box.end; j++) {
+      const k = keys[j];
+      n += count[k];
+      r += sums[k * 3];
+      g += sums[k * 3 + 1];
+      b += sums[k * 3 + 2];
+      lookup[k] = i;
+    }
+    if (n > 0) {
+      colors[i * 3] = Math.round(r / n);
+      colors[i * 3 + 1] = Math.round(g / n);
+      colors[i * 3 + 2] = Math.round(b / n);
+    }
+  });
+  return { colors, size: Math.max(1, boxes.length), lookup };
+}
+
+/**
+ * 可增長的位元組緩衝區
+ */
+class ByteWriter {
+  private buf = new Uint8Array(1 << 16);
+  length = 0;
+
+  private reserve(n: number) {
+    if (this.length + n <= this.buf.length) return;
+    let size = this.buf.length * 2;
+    while (size < this.length + n) size *= 2;
+    const next = new Uint8Array(size);
+    next.set(this.buf.subarray(0, this.length));
+    this.buf = next;
+  }
+
+  byte(v: number) {
+    this.reserve(1);
+    this.buf[this.length++] = v;
+  }
+
+  u16(v: number) {
+    this.byte(v & 0xff);
+    this.byte((v >> 8) & 0xff);
+  }
+
+  bytes(data: ArrayLike<number>) {
+    this.reserve(data.length);
+    this.buf.set(data, this.length);
+    this.length += data.length;
+  }
+
+  result(): Uint8Array<ArrayBuffer> {
+    return this.buf.slice(0, this.length);
+  }
+}
+
+/**
+ * GIF 的 LZW 壓縮，輸出為以 255 位元組分段的資料區塊
+ */
+function writeLzw(out: ByteWriter, indices: Uint8Array, minCodeSize: number) {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let dict = new Map<number, number>();
+
+  const block: number[] = [];
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.push(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+      if (block.length === 255) {
+        out.byte(255);
+        out.bytes(block);
+        block.length = 0;
+      }
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = dict.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode <= MAX_CODE) {
+      dict.set(key, nextCode);
+      // 解碼端在加入新字碼後才放大碼長，因此這裡以「已加入的字碼」判斷
+      if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+      nextCode++;
+    } else {
+      emit(clearCode);
+      dict = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) block.push(bits & 0xff);
+  for (let i = 0; i < block.length; i += 255) {
+    const part = block.slice(i, i + 255);
+    out.byte(part.length);
+    out.bytes(part);
+  }
+  out.byte(0);
+}
+
+export interface GifEncoderOptions {
+  /** 重播次數，0 為無限重播（預設） */
+  repeat?: number;
+}
+
+export class GifEncoder {
+  readonly width: number;
+  readonly height: number;
+  private out = new ByteWriter();
+  private frames = 0;
+  private finished = false;
+
+  constructor(width: number, height: number, options: GifEncoderOptions = {}) {
+    if (width < 1 || height < 1 || width > 0xffff || height > 0xffff) {
+      throw new Error(`Invalid GIF size ${width}x${height}.`);
+    }
+    this.width = width;
+    this.height = height;
+    const out = this.out;
+    out.bytes([0x47, 0x49, 0x46, 0x38, 0x39, 0x61]); // GIF89a
+    out.u16(width);
+    out.u16(height);
+    // 不使用全域調色盤，每幀各自帶區域調色盤
+    out.bytes([0, 0, 0]);
+    // NETSCAPE2.0 應用程式擴充：重播次數
+    out.bytes([0x21, 0xff, 0x0b]);
+    out.bytes(Array.from('NETSCAPE2.0', (ch) => ch.charCodeAt(0)));
+    out.bytes([0x03, 0x01]);
+    out.u16(Math.max(0, options.repeat ?? 0));
+    out.byte(0);
+  }
+
+  /**
+   * 加入一幀；rgba 大小必須為 width x height，delay 單位為 1/100 秒
+   */
+  addFrame(rgba: Uint8ClampedArray, delay: number) {
+    if (this.finished) throw new Error('GIF encoder already finished.');
+    if (rgba.length !== this.width * this.height * 4) {
+      throw new Error(`Frame size does not match ${this.width}x${this.height}.`);
+    }
+    const palette = buildPalette(rgba);
+    const indices = new Uint8Array(this.width * this.height);
+    for (let i = 0, p = 0; i < indices.length; i++, p += 4) {
+      indices[i] = palette.lookup[histKey(rgba[p], rgba[p + 1], rgba[p + 2])];
+    }
+    // 調色盤大小必須是 2 的次方（至少 2 色）
+    let tableBits = 1;
+    while (1 << tableBits < palette.size) tableBits++;
+
+    const out = this.out;
+    // Graphic Control Extension：disposal = 1（保留），無透明色
+    out.bytes([0x21, 0xf9, 0x04, 0x04]);
+    out.u16(Math.max(0, Math.min(0xffff, Math.round(delay))));
+    out.bytes([0, 0]);
+    // Image Descriptor + 區域調色盤
+    out.byte(0x2c);
+    out.u16(0);
+    out.u16(0);
+    out.u16(this.width);
+    out.u16(this.height);
+    out.byte(0x80 | (tableBits - 1));
+    const table = new Uint8Array((1 << tableBits) * 3);
+    table.set(palette.colors);
+    out.bytes(table);
+    writeLzw(out, indices, Math.max(2, tableBits));
+    this.frames++;
+  }
+
+  get frameCount(): number {
+    return this.frames;
+  }
+
+  /**
+   * 結束並取得 GIF 檔內容
+   */
+  finish(): Uint8Array<ArrayBuffer> {
+    if (!this.finished) {
+      this.out.byte(0x3b);
+      this.finished = true;
+    }
+    return this.out.result();
+  }
+}
@@ -0,0 +1,290 @@
+// glyphAtlas.ts
+// 以字元圖集在 <canvas> 上繪製 ASCII 幀，只重畫與上一幀不同的格子
+// 圖集每個字元只有一格；彩色模式把字元當成遮罩，整層一次染上每格的顏色後再貼回畫面
+
+import { countRunCells, diffFrames, MAX_CHARSET_SIZE } from './compactFrame';
+import type { CompactFrame, FrameRun } from './compactFrame';
+
+/**
+ * 彩色顯示方式：單色、彩色文字、前景/背景配對
+ */
+export type ColorRenderMode = 'mono' | 'text' | 'fgbg';
+
+export interface GlyphRenderStyle {
+  fontSize: number;
+  lineHeight: number;
+  fontFamily: string;
+  /** 單色模式的字元顏色 */
+  color: string;
+  background: string;
+  colorMode: ColorRenderMode;
+  /** 每個 CSS 像素的裝置像素數，省略時使用 devicePixelRatio（匯出圖片時用來指定解析度） */
+  pixelRatio?: number;
+}
+
+export interface RendererStats {
+  /** 本幀繪製耗時（ms） */
+  drawMs: number;
+  /** 近期平均繪製耗時（ms） */
+  avgDrawMs: number;
+  cellsDrawn: number;
+  totalCells: number;
+  fullRedraw: boolean;
+}
+
+// fgbg 模式下背景色為前景色的比例，與 DOM 顯示一致
+export const FGBG_BACKGROUND_SCALE = 0.35;
+
+// 圖集依字元配置，容量與字元集上限相同
+const ATLAS_COLS = 16;
+const ATLAS_ROWS = Math.ceil(MAX_CHARSET_SIZE / ATLAS_COLS);
+const STATS_WINDOW = 30;
+
+export class GlyphAtlasRenderer {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private atlas: HTMLCanvasElement;
+  private atlasCtx: CanvasRenderingContext2D;
+  /** 彩色模式的字元層：先畫字元遮罩，再整層染色 */
+  private glyphLayer: HTMLCanvasElement;
+  private glyphCtx: CanvasRenderingContext2D;
+  /** 每格一個像素的前景色，放大後用來替字元層染色 */
+  private tint: HTMLCanvasElement;
+  private tintCtx: CanvasRenderingContext2D;
+  private tintPixels: ImageData | null = null;
+  private slots = new Map<string, number>();
+  private style: GlyphRenderStyle | null = null;
+  private dpr = 1;
+  private tileW = 1;
+  private tileH = 1;
+  private cols = 0;
+  private rows = 0;
+  private prevFrame: CompactFrame | null = null;
+  private forceFull = true;
+  private drawTimes: number[] = [];
+
+  constructor(canvas: HTMLCanvasElement) {
+    this.canvas = canvas;
+    const ctx = canvas.getContext('2d', { alpha: false });
+    if (!ctx) throw new Error('Cannot get 2D context');
+    this.ctx = ctx;
+    this.atlas = document.createElement('canvas');
+    const atlasCtx = this.atlas.getContext('2d');
+    if (!atlasCtx) throw new Error('Cannot get 2D context');
+    this.atlasCtx = atlasCtx;
+    this.glyphLayer = document.createElement('canvas');
+    const glyphCtx = this.glyphLayer.getContext('2d');
+    if (!glyphCtx) throw new Error('Cannot get 2D context');
+    this.glyphCtx = glyphCtx;
+    this.tint = document.createElement('canvas');
+    const tintCtx = this.tint.getContext('2d');
+    if (!tintCtx) throw new Error('Cannot get 2D context');
+    this.tintCtx = tintCtx;
+  }
+
+  /**
+   * 設定字型與顏色；有變動時清空圖集並在下一幀全部重畫
+   * prebuild 中的字元會先畫進圖集
+   */
+  setStyle(style: GlyphRenderStyle, prebuild = '') {
+    const prev = this.style;
+    const dpr = style.pixelRatio ?? (typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1);
+    if (prev && dpr === this.dpr
+      && prev.fontSize === style.fontSize && prev.lineHeight === style.lineHeight
+      && prev.fontFamily === style.fontFamily && prev.color === style.color
+      && prev.background === style.background && prev.colorMode === style.colorMode) {
+      return;
+    }
+    this.style = { ...style };
+    this.dpr = dpr;
+    this.atlasCtx.font = this.font();
+    // 字型已乘上 dpr，量到的寬度即為裝置像素
+    this.tileW = Math.max(1, Math.round(this.atlasCtx.measureText('M').width));
+    this.tileH = Math.max(1, Math.round(style.lineHeight * dpr));
+    this.resetAtlas();
+    this.forceFull = true;
+    for (const ch of prebuild) this.slotFor(ch);
+  }
+
+  /**
+   * 每個字元格在 CSS 像素下的大小
+   */
+  getCellSize(): { width: number; height: number } {
+    return { width: this.tileW / this.dpr, height: this.tileH / this.dpr };
+  }
+
+  /**
+   * 繪製一幀，回傳統計資料；以 diffFrames 與上一幀比較，只重畫變動的格子
+   * 畫過的幀會保留作為下一次比較的基準，之後不應再修改
+   */
+  draw(frame: CompactFrame): RendererStats {
+    const start = performance.now();
+    const style = this.style;
+    if (!style) throw new Error('Call setStyle() before draw().');
+    const { cols, rows, charset, glyphs, colors } = frame;
+    const useColors = style.colorMode !== 'mono' && colors && colors.cols === cols && colors.rows === rows ? colors : null;
+    // 不顯示顏色時比較也略過顏色，只有顏色變動的格子不必重畫
+    const shown = useColors === colors ? frame : { ...frame, colors: null };
+
+    let full = this.forceFull || !this.prevFrame || !!useColors !== !!this.prevFrame.colors;
+    if (cols !== this.cols || rows !== this.rows) {
+      this.cols = cols;
+      this.rows = rows;
+      this.canvas.width = Math.max(1, cols * this.tileW);
+      this.canvas.height = Math.max(1, rows * this.tileH);
+      this.canvas.style.width = `${this.canvas.width / this.dpr}px`;
+      this.canvas.style.height = `${this.canvas.height / this.dpr}px`;
+      full = true;
+    }
+    if (full) {
+      this.ctx.fillStyle = style.background;
+      this.ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    }
+
+    const fg = useColors?.rgb ?? null;
+    const bg = useColors ? useColors.bg ?? null : null;
+    const runs = diffFrames(full ? null : this.prevFrame, shown);
+    // 單色直接貼圖集的字元；彩色先把字元畫進字元層，染色後再貼回
+    const target = fg ? this.prepareGlyphLayer(full, runs) : this.ctx;
+    for (const run of runs) {
+      for (let x = run.start; x < run.start + run.length; x++) {
+        const i = run.row * cols + x;
+        this.drawCell(target, x, run.row, charset[glyphs[i]], fg, bg, i * 3);
+      }
+    }
+    if (fg && runs.length > 0) this.compositeGlyphLayer(runs, fg);
+    const drawn = countRunCells(runs);
+    this.prevFrame = shown;
+    this.forceFull = false;
+
+    const drawMs = performance.now() - start;
+    this.drawTimes.push(drawMs);
+    if (this.drawTimes.length > STATS_WINDOW) this.drawTimes.shift();
+    const avgDrawMs = this.drawTimes.reduce((a, b) => a + b, 0) / this.drawTimes.length;
+    return { drawMs, avgDrawMs, cellsDrawn: drawn, totalCells: cols * rows, fullRedraw: full };
+  }
+
+  /**
+   * 釋放圖集與彩色模式用的畫布
+   */
+  destroy() {
+    this.slots.clear();
+    for (const canvas of [this.atlas, this.glyphLayer, this.tint]) {
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+    this.tintPixels = null;
+    this.prevFrame = null;
+  }
+
+  private font(): string {
+    const style = this.style!;
+    return `${style.fontSize * this.dpr}px ${style.fontFamily}`;
+  }
+
+  private resetAtlas() {
+    this.slots.clear();
+    this.atlas.width = ATLAS_COLS * this.tileW;
+    this.atlas.height = ATLAS_ROWS * this.tileH;
+    this.atlasCtx.clearRect(0, 0, this.atlas.width, this.atlas.height);
+  }
+
+  /**
+   * 取得（必要時建立）字元在圖集中的位置；字元以單色畫入，彩色模式只用到它的 alpha
+   */
+  private slotFor(glyph: string): number {
+    const cached = this.slots.get(glyph);
+    if (cached !== undefined) return cached;
+    // 圖集滿了（字元數超過字元集上限）就整個清空重建；已畫在畫面上的格子不受影響
+    if (this.slots.size >= ATLAS_COLS * ATLAS_ROWS) this.resetAtlas();
+    const slot = this.slots.size;
+    const sx = (slot % ATLAS_COLS) * this.tileW;
+    const sy = Math.floor(slot / ATLAS_COLS) * this.tileH;
+    const ctx = this.atlasCtx;
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(sx, sy, this.tileW, this.tileH);
+    ctx.clip();
+    ctx.font = this.font();
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = this.style!.color;
+    ctx.fillText(glyph, sx, sy + this.tileH / 2);
+    ctx.restore();
+    this.slots.set(glyph, slot);
+    return slot;
+  }
+
+  /**
+   * 彩色模式：字元層與畫面同大，清掉這次要重畫的格子（全部重畫時整層清空）
+   */
+  private prepareGlyphLayer(full: boolean, runs: FrameRun[]): CanvasRenderingContext2D {
+    const layer = this.glyphLayer;
+    if (layer.width !== this.canvas.width || layer.height !== this.canvas.height) {
+      layer.width = this.canvas.width;
+      layer.height = this.canvas.height;
+    } else if (full) {
+      this.glyphCtx.clearRect(0, 0, layer.width, layer.height);
+    } else {
+      for (const run of runs) {
+        this.glyphCtx.clearRect(run.start * this.tileW, run.row * this.tileH, run.length * this.tileW, this.tileH);
+      }
+    }
+    return this.glyphCtx;
+  }
+
+  /**
+   * 彩色模式：把每格的前景色放大成整層，以 source-in 替字元層染色，再只貼回有變動的格子
+   * 沒變動的格子顏色也沒變，重新染色結果相同
+   */
+  private compositeGlyphLayer(runs: FrameRun[], fg: Uint8ClampedArray) {
+    const { cols, rows } = this;
+    if (this.tint.width !== cols || this.tint.height !== rows || !this.tintPixels) {
+      this.tint.width = cols;
+      this.tint.height = rows;
+      this.tintPixels = this.tintCtx.createImageData(cols, rows);
+    }
+    const pixels = this.tintPixels.data;
+    for (let i = 0; i < cols * rows; i++) {
+      pixels[i * 4] = fg[i * 3];
+      pixels[i * 4 + 1] = fg[i * 3 + 1];
+      pixels[i * 4 + 2] = fg[i * 3 + 2];
+      pixels[i * 4 + 3] = 255;
+    }
+    this.tintCtx.putImageData(this.tintPixels, 0, 0);
+
+    const layer = this.glyphCtx;
+    layer.save();
+    layer.globalCompositeOperation = 'source-in';
+    layer.imageSmoothingEnabled = false;
+    layer.drawImage(this.tint, 0, 0, cols, rows, 0, 0, this.glyphLayer.width, this.glyphLayer.height);
+    layer.restore();
+
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.beginPath();
+    for (const run of runs) ctx.rect(run.start * this.tileW, run.row * this.tileH, run.length * this.tileW, this.tileH);
+    ctx.clip();
+    ctx.drawImage(this.glyphLayer, 0, 0);
+    ctx.restore();
+  }
+
+  private drawCell(target: CanvasRenderingContext2D, x: number, y: number, glyph: string, fg: Uint8ClampedArray | null, bg: Uint8ClampedArray | null, o: number) {
+    const style = this.style!;
+    const dx = x * this.tileW;
+    const dy = y * this.tileH;
+    let background = style.background;
+    if (bg) background = rgbString(bg, o);
+    else if (fg && style.colorMode === 'fgbg') background = rgbString(fg, o, FGBG_BACKGROUND_SCALE);
+    this.ctx.fillStyle = background;
+    this.ctx.fillRect(dx, dy, this.tileW, this.tileH);
+    if (glyph === ' ' || glyph === '⠀') return;
+    const slot = this.slotFor(glyph);
+    const sx = (slot % ATLAS_COLS) * this.tileW;
+    const sy = Math.floor(slot / ATLAS_COLS) * this.tileH;
+    target.drawImage(this.atlas, sx, sy, this.tileW, this.tileH, dx, dy, this.tileW, this.tileH);
+  }
+}
+
+function rgbString(rgb: Uint8ClampedArray, o: number, k = 1): string {
+  return `rgb(${Math.round(rgb[o] * k)},${Math.round(rgb[o + 1] * k)},${Math.round(rgb[o + 2] * k)})`;
+}
@@ -0,0 +1,114 @@
+// glyphDensity.ts
+// 量測字元在指定字型下的墨水覆蓋率，依密度排序字元集（索引 0 為最密，對應最暗的像素）
+
+/**
+ * 字元與其覆蓋率（0~1，墨水佔字元格的比例）
+ */
+export interface GlyphDensity {
+  glyph: string;
+  coverage: number;
+}
+
+export interface GlyphMeasureOptions {
+  fontFamily?: string;
+  /** 量測用的字型大小（px）；越大越精確（預設 32） */
+  fontSize?: number;
+}
+
+export interface CharsetOrderOptions extends GlyphMeasureOptions {
+  /** 排列方向（預設 dense-first，與 DEFAULT_CHARS 相同） */
+  order?: 'dense-first' | 'light-first';
+  /** 覆蓋率差距小於此值的字元視為重複，只保留一個（預設 0.002） */
+  tolerance?: number;
+  /** 指定時挑出這麼多個字元，讓覆蓋率盡量等距分布 */
+  levels?: number;
+}
+
+const DEFAULT_MEASURE_SIZE = 32;
+const DEFAULT_TOLERANCE = 0.002;
+
+function createMeasureContext(width: number, height: number): CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D {
+  const canvas = typeof document !== 'undefined'
+    ? Object.assign(document.createElement('canvas'), { width, height })
+    : new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Cannot get 2D context');
+  return ctx;
+}
+
+/**
+ * 把每個字元畫進同樣大小的格子並量測覆蓋率
+ * 格寬取所有字元中最寬者（全形字元與半形字元以相同基準比較），格高為字型大小
+ */
+export function measureGlyphDensity(glyphs: string | string[], options: GlyphMeasureOptions = {}): GlyphDensity[] {
+  const list = typeof glyphs === 'string' ? Array.from(glyphs) : glyphs;
+  if (list.length === 0) return [];
+  const fontSize = options.fontSize ?? DEFAULT_MEASURE_SIZE;
+  const font = `${fontSize}px ${options.fontFamily ?? 'monospace'}`;
+
+  const probe = createMeasureContext(1, 1);
+  probe.font = font;
+  const width = Math.max(1, Math.ceil(Math.max(...list.map((g) => probe.measureText(g).width))));
+  const height = Math.max(1, Math.ceil(fontSize));
+  const ctx = createMeasureContext(width, height);
+  ctx.font = font;
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#fff';
+
+  const area = width * height * 255;
+  return list.map((glyph) => {
+    ctx.clearRect(0, 0, width, height);
+    ctx.fillText(glyph, 0, height / 2);
+    const data = ctx.getImageData(0, 0, width, height).data;
+    let ink = 0;
+    for (let i = 3; i < data.length; i += 4) ink += data[i];
+    return { glyph, coverage: ink / area };
+  });
+}
+
+/**
+ * 在依覆蓋率排序的清單中挑出 levels 個字元，讓覆蓋率盡量等距（頭尾一定保留）
+ */
+function pickEvenlySpaced(sorted: GlyphDensity[], levels: number): GlyphDensity[] {
+  if (levels >= sorted.length) return sorted;
+  if (levels <= 1) return sorted.slice(0, 1);
+  const min = sorted[0].coverage;
+  const max = sorted[sorted.length - 1].coverage;
+  const picked: GlyphDensity[] = [];
+  let from = 0;
+  for (let k = 0; k < levels; k++) {
+    const target = min + ((max - min) * k) / (levels - 1);
+    // 後面還需要 levels - k - 1 個字元，搜尋範圍不能超過
+    const last = sorted.length - (levels - k);
+    let best = from;
+    for (let i = from; i <= last; i++) {
+      if (Math.abs(sorted[i].coverage - target) < Math.abs(sorted[best].coverage - target)) best = i;
+    }
+    picked.push(sorted[best]);
+    from = best + 1;
+  }
+  return picked;
+}
+
+/**
+ * 依量測到的密度排序字元集，去除重複字元與密度相同的字元，可選擇挑出等距的階層
+ */
+export function orderCharsetByDensity(chars: string, options: CharsetOrderOptions = {}): GlyphDensity[] {
+  const unique = [...new Set(Array.from(chars))];
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const sorted = measureGlyphDensity(unique, options).sort((a, b) => a.coverage - b.coverage);
+  const deduped: GlyphDensity[] = [];
+  for (const d of sorted) {
+    const prev = deduped[deduped.length - 1];
+    if (!prev || d.coverage - prev.coverage >= tolerance) deduped.push(d);
+  }
+  const ramp = options.levels ? pickEvenlySpaced(deduped, Math.max(2, Math.floor(options.levels))) : deduped;
+  return (options.order ?? 'dense-first') === 'dense-first' ? ramp.reverse() : ramp;
+}
+
+/**
+ * orderCharsetByDensity 的字串版本
+ */
+export function sortCharsetByDensity(chars: string, options: CharsetOrderOptions = {}): string {
+  return orderCharsetByDensity(chars, options).map((d) => d.glyph).join('');
+}
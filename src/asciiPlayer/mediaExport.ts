@@ -0,0 +1,194 @@
+// mediaExport.ts
+// 把 ASCII 輸出匯出成 PNG、動態 GIF 或 WebM
+// 時間範圍的匯出會暫停播放器並逐幀跳轉、轉換（不是即時錄影），完成後停在原本的位置
+
+import type { CompactFrame } from './compactFrame';
+import { GlyphAtlasRenderer } from './glyphAtlas';
+import type { GlyphRenderStyle } from './glyphAtlas';
+import { GifEncoder } from './gifEncoder';
+import type { VideoAsciiPlayer } from './VideoAsciiPlayer';
+
+/**
+ * 匯出的時間範圍（秒，會限制在來源長度內）
+ */
+export interface ExportRange {
+  start: number;
+  end: number;
+}
+
+export interface CaptureOptions {
+  fps: number;
+  signal?: AbortSignal;
+  /** 每轉換完一幀呼叫 */
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface MediaExportOptions extends CaptureOptions {
+  /** 字型、顏色與解析度（pixelRatio） */
+  style: GlyphRenderStyle;
+}
+
+export interface WebmExportOptions extends MediaExportOptions {
+  videoBitsPerSecond?: number;
+}
+
+// GIF 的延遲單位是 1/100 秒，且瀏覽器會把小於 2 的延遲當成 10
+const MAX_GIF_FPS = 50;
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/**
+ * 以字元圖集把一幀畫到 canvas
+ */
+export function renderFrameToCanvas(frame: CompactFrame, style: GlyphRenderStyle, canvas = document.createElement('canvas')): HTMLCanvasElement {
+  const renderer = new GlyphAtlasRenderer(canvas);
+  renderer.setStyle(style, frame.charset.join(''));
+  renderer.draw(frame);
+  renderer.destroy();
+  return canvas;
+}
+
+/**
+ * 匯出單一幀為 PNG
+ */
+export function exportPng(frame: CompactFrame, style: GlyphRenderStyle): Promise<Blob> {
+  const canvas = renderFrameToCanvas(frame, style);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode PNG.'))), 'image/png');
+  });
+}
+
+/**
+ * 暫停播放器，依 fps 逐幀跳轉並取出轉換結果；結束（包含中斷）後跳回原本的時間
+ */
+export async function* captureRange(player: VideoAsciiPlayer, range: ExportRange, options: CaptureOptions): AsyncGenerator<CompactFrame> {
+  const duration = player.getDuration();
+  const start = Math.min(Math.max(0, range.start), duration);
+  const end = Math.min(Math.max(start, range.end), duration);
+  const fps = Math.max(1, options.fps);
+  const total = Math.max(1, Math.round((end - start) * fps));
+  const resumeAt = player.getCurrentTime();
+  const source = player.getSource();
+  player.pause();
+  try {
+    for (let i = 0; i < total; i++) {
+      options.signal?.throwIfAborted();
+      // 暫停中的 seek 會重新轉換並送出該時間點的畫面
+      await player.seek(start + i / fps);
+      const frame = player.getCompactFrame();
+      if (frame) yield frame;
+      options.onProgress?.(i + 1, total);
+    }
+  } finally {
+    // 來源已被換掉就不跳回；跳回失敗也忽略，讓原本的錯誤（或 AbortError）傳出去
+    if (player.getSource() === source) await player.seek(resumeAt).catch(() => {});
+  }
+}
+
+// 取得 canvas 像素；尺寸與第一幀不同時貼到固定大小的畫布上
+function readPixels(canvas: HTMLCanvasElement, width: number, height: number, background: string, scratch: { canvas?: HTMLCanvasElement }): Uint8ClampedArray {
+  let source = canvas;
+  if (canvas.width !== width || canvas.height !== height) {
+    scratch.canvas ??= document.createElement('canvas');
+    source = scratch.canvas;
+    source.width = width;
+    source.height = height;
+    const ctx = source.getContext('2d');
+    if (!ctx) throw new Error('Cannot get 2D context');
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+    ctx.drawImage(canvas, 0, 0);
+  }
+  const ctx = source.getContext('2d');
+  if (!ctx) throw new Error('Cannot get 2D context');
+  return ctx.getImageData(0, 0, width, height).data;
+}
+
+/**
+ * 匯出時間範圍為動態 GIF（每幀各自建立調色盤；fps 上限 50）
+ */
+export async function exportGif(player: VideoAsciiPlayer, range: ExportRange, options: MediaExportOptions): Promise<Blob> {
+  const fps = Math.min(MAX_GIF_FPS, Math.max(1, options.fps));
+  const canvas = document.createElement('canvas');
+  const renderer = new GlyphAtlasRenderer(canvas);
+  const scratch: { canvas?: HTMLCanvasElement } = {};
+  let encoder: GifEncoder | null = null;
+  try {
+    for await (const frame of captureRange(player, range, { ...options, fps })) {
+      renderer.setStyle(options.style, frame.charset.join(''));
+      renderer.draw(frame);
+      encoder ??= new GifEncoder(canvas.width, canvas.height);
+      const i = encoder.frameCount;
+      // 以累計時間換算，避免 1/100 秒的捨入誤差累積
+      const delay = Math.round(((i + 1) * 100) / fps) - Math.round((i * 100) / fps);
+      encoder.addFrame(readPixels(canvas, encoder.width, encoder.height, options.style.background, scratch), delay);
+    }
+  } finally {
+    renderer.destroy();
+  }
+  if (!encoder) throw new Error('No frames were captured.');
+  return new Blob([encoder.finish()], { type: 'image/gif' });
+}
+
+function pickWebmType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+/**
+ * 目前瀏覽器是否能以 MediaRecorder 錄製 canvas 成 WebM
+ */
+export function isWebmExportSupported(): boolean {
+  return typeof HTMLCanvasElement !== 'undefined'
+    && 'captureStream' in HTMLCanvasElement.prototype
+    && pickWebmType() !== null;
+}
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * 匯出時間範圍為 WebM
+ * 轉換時 MediaRecorder 保持暫停，每幀只錄 1/fps 秒，因此影片時間與轉換速度無關；
+ * 但錄製本身仍需要與片段等長的實際時間
+ */
+export async function exportWebm(player: VideoAsciiPlayer, range: ExportRange, options: WebmExportOptions): Promise<Blob> {
+  const mimeType = pickWebmType();
+  if (!mimeType) throw new Error('WebM recording is not supported in this browser.');
+  const frameMs = 1000 / Math.max(1, options.fps);
+  const canvas = document.createElement('canvas');
+  const renderer = new GlyphAtlasRenderer(canvas);
+  const chunks: Blob[] = [];
+  let recorder: MediaRecorder | null = null;
+  let track: CanvasCaptureMediaStreamTrack | null = null;
+  try {
+    for await (const frame of captureRange(player, range, options)) {
+      renderer.setStyle(options.style, frame.charset.join(''));
+      renderer.draw(frame);
+      if (!recorder || !track) {
+        // 第一幀畫完、尺寸確定後才開始錄
+        const stream = canvas.captureStream(0);
+        track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+        recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: options.videoBitsPerSecond });
+        recorder.ondataavailable = (e) => {
+          if (e.data.size > 0) chunks.push(e.data);
+        };
+        recorder.start();
+      } else {
+        recorder.resume();
+      }
+      track.requestFrame();
+      await wait(frameMs);
+      recorder.pause();
+    }
+    if (!recorder) throw new Error('No frames were captured.');
+    const active = recorder;
+    await new Promise<void>((resolve) => {
+      active.onstop = () => resolve();
+      active.stop();
+    });
+    return new Blob(chunks, { type: 'video/webm' });
+  } finally {
+    if (recorder && recorder.state !== 'inactive') recorder.stop();
+    track?.stop();
+    renderer.destroy();
+  }
+}
@@ -0,0 +1,146 @@
+// playerEvents.ts
+// VideoAsciiPlayer 的事件型別、錯誤代碼與可多方訂閱的事件發送器
+
+import type { CellColors, CellSize, CompactFrame } from './asciiConverter';
+import type { PlaylistItem } from './playlist';
+
+/**
+ * 錯誤代碼
+ * - LOAD_FAILED: 影片載入失敗（網路或來源錯誤）
+ * - UNSUPPORTED_FORMAT: 瀏覽器無法解碼此格式
+ * - NOT_LOADED: 尚未設定影片就呼叫播放相關方法
+ * - PLAY_REJECTED: video.play() 被拒絕（有聲播放被自動播放政策擋下時會先改為靜音重試）
+ * - WORKER_FAILED: Worker 無法執行，已退回主執行緒
+ * - CONVERT_FAILED: 擷取或轉換單一幀失敗
+ * - CORS_TAINTED: 跨來源且未允許 CORS 的來源無法讀取像素，播放會停止
+ */
+export type PlayerErrorCode =
+  | 'LOAD_FAILED'
+  | 'UNSUPPORTED_FORMAT'
+  | 'NOT_LOADED'
+  | 'PLAY_REJECTED'
+  | 'WORKER_FAILED'
+  | 'CONVERT_FAILED'
+  | 'CORS_TAINTED';
+
+export class VideoAsciiPlayerError extends Error {
+  readonly code: PlayerErrorCode;
+
+  constructor(code: PlayerErrorCode, message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'VideoAsciiPlayerError';
+    this.code = code;
+  }
+}
+
+/**
+ * 播放時間相關事件的內容（秒）
+ */
+export interface PlaybackEvent {
+  currentTime: number;
+}
+
+/**
+ * 播放效能統計
+ * - fps: 最近一秒實際轉換的幀數
+ * - convertMs: 每幀轉換耗時的移動平均（Worker 模式為送出到收到結果的時間）
+ * - droppedFrames: 影片已顯示但來不及轉換的幀數（不支援 requestVideoFrameCallback 時只計 Worker 忙碌而略過的次數）
+ * - skippedFrames: 因 maxFps 上限而刻意略過的次數
+ * - adaptiveScale: 自適應模式下取樣間距的倍率（1 表示未放大）
+ * - cellSize: 實際使用的取樣間距
+ */
+export interface RenderStats {
+  fps: number;
+  convertMs: number;
+  droppedFrames: number;
+  skippedFrames: number;
+  adaptiveScale: number;
+  cellSize: CellSize;
+  clock: 'video-frame' | 'animation-frame';
+}
+
+/**
+ * 事件名稱與內容的對照
+ */
+export interface VideoAsciiPlayerEvents {
+  /** setVideo 完成，可以開始播放 */
+  loaded: { width: number; height: number; duration: number };
+  play: PlaybackEvent;
+  pause: PlaybackEvent;
+  ended: PlaybackEvent;
+  seeked: PlaybackEvent;
+  /** 靜音或音量改變（包含自動播放被擋下而改為靜音） */
+  volumechange: { muted: boolean; volume: number };
+  /** 瀏覽器不允許有聲自動播放，已改為靜音播放；需要使用者操作後再取消靜音 */
+  autoplayblocked: PlaybackEvent;
+  /** 播放中每轉換完一幀，以及暫停時 seek 完成後；timestamp 為影片時間（秒），frameNumber 自載入後從 1 起算 */
+  frame: { frame: CompactFrame; colors: CellColors | null; timestamp: number; frameNumber: number };
+  /** 輸出的欄列數或來源尺寸改變 */
+  resize: { cols: number; rows: number; width: number; height: number };
+  /** 播放中約每秒一次 */
+  stats: RenderStats;
+  /** 播放清單切換到新項目（來源已載入，loaded 事件之後）；index 為 items 中的位置 */
+  playlistitem: { index: number; item: PlaylistItem };
+  error: { error: VideoAsciiPlayerError };
+}
+
+export type EventListener<Events, K extends keyof Events> = (event: Events[K]) => void;
+
+/**
+ * 具型別的事件發送器；on() 回傳取消訂閱的函式
+ */
+export class TypedEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<EventListener<Events, never>>>();
+
+  on<K extends keyof Events>(type: K, listener: EventListener<Events, K>): () => void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    set.add(listener as EventListener<Events, never>);
+    return () => this.off(type, listener);
+  }
+
+  /**
+   * 只觸發一次的訂閱
+   */
+  once<K extends keyof Events>(type: K, listener: EventListener<Events, K>): () => void {
+    const off = this.on(type, (event) => {
+      off();
+      listener(event);
+    });
+    return off;
+  }
+
+  off<K extends keyof Events>(type: K, listener: EventListener<Events, K>) {
+    this.listeners.get(type)?.delete(listener as EventListener<Events, never>);
+  }
+
+  /**
+   * 移除指定事件（省略時為全部事件）的所有訂閱
+   */
+  removeAllListeners(type?: keyof Events) {
+    if (type === undefined) this.listeners.clear();
+    else this.listeners.delete(type);
+  }
+
+  protected hasListeners(type: keyof Events): boolean {
+    return (this.listeners.get(type)?.size ?? 0) > 0;
+  }
+
+  /**
+   * 依訂閱順序呼叫；單一 listener 拋出的錯誤不影響其他 listener
+   */
+  protected emit<K extends keyof Events>(type: K, event: Events[K]) {
+    const set = this.listeners.get(type);
+    if (!set || set.size === 0) return;
+    for (const listener of [...set]) {
+      try {
+        (listener as EventListener<Events, K>)(event);
+      } catch (err) {
+        console.error(`Error in "${String(type)}" listener:`, err);
+      }
+    }
+  }
+}
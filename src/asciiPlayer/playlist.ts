@@ -0,0 +1,184 @@
+// playlist.ts
+// 播放清單：佇列、上一首/下一首與隨機順序（不依賴 DOM，由 VideoAsciiPlayer 使用）
+
+/**
+ * 播放清單項目；kind 省略時依副檔名或 data URL 判斷
+ */
+export interface PlaylistItem {
+  src: string;
+  title?: string;
+  kind?: 'video' | 'image' | 'animation';
+}
+
+export class Playlist<T> {
+  private items: T[] = [];
+  // 播放順序（items 的索引）；未開啟隨機時為 0..n-1
+  private order: number[] = [];
+  // 目前在 order 中的位置，-1 表示尚未開始
+  private position = -1;
+  private shuffled = false;
+  private random: () => number;
+
+  constructor(items: T[] = [], shuffle = false, random: () => number = Math.random) {
+    this.random = random;
+    this.shuffled = shuffle;
+    this.set(items);
+  }
+
+  get length(): number {
+    return this.items.length;
+  }
+
+  /**
+   * 目前項目在 items 中的索引，尚未開始時為 -1
+   */
+  get currentIndex(): number {
+    return this.position >= 0 ? this.order[this.position] : -1;
+  }
+
+  get current(): T | null {
+    return this.position >= 0 ? this.items[this.order[this.position]] : null;
+  }
+
+  getItems(): readonly T[] {
+    return this.items;
+  }
+
+  /**
+   * 依播放順序排列的 items 索引
+   */
+  getOrder(): readonly number[] {
+    return this.order;
+  }
+
+  isShuffled(): boolean {
+    return this.shuffled;
+  }
+
+  /**
+   * 取代整個清單並回到尚未開始的狀態
+   */
+  set(items: T[]) {
+    this.items = items.slice();
+    this.order = this.items.map((_, i) => i);
+    this.position = -1;
+    if (this.shuffled) this.shuffleOrder();
+  }
+
+  /**
+   * 加到清單最後；隨機模式下插入尚未播放的部分中的隨機位置
+   */
+  enqueue(...items: T[]) {
+    for (const item of items) {
+      const index = this.items.push(item) - 1;
+      if (this.shuffled) {
+        const from = this.position + 1;
+        const at = from + Math.floor(this.random() * (this.order.length - from + 1));
+        this.order.splice(at, 0, index);
+      } else {
+        this.order.push(index);
+      }
+    }
+  }
+
+  clear() {
+    this.set([]);
+  }
+
+  /**
+   * 跳到 items[index]；index 為 -1 時回到尚未開始
+   */
+  select(index: number): T | null {
+    if (index === -1) {
+      this.position = -1;
+      return null;
+    }
+    const position = this.order.indexOf(index);
+    if (position < 0) return null;
+    this.position = position;
+    return this.current;
+  }
+
+  /**
+   * 前進到下一項；已在最後且 wrap 為 false 時回傳 null 並停在原處
+   */
+  next(wrap = false): T | null {
+    if (this.items.length === 0) return null;
+    if (this.position + 1 < this.order.length) {
+      this.position++;
+    } else if (wrap) {
+      // 隨機模式每輪重新洗牌
+      if (this.shuffled) this.shuffleOrder(this.currentIndex);
+      this.position = 0;
+      if (this.shuffled && this.order.length > 1) this.position = 1;
+    } else {
+      return null;
+    }
+    return this.current;
+  }
+
+  /**
+   * 回到上一項；已在最前且 wrap 為 false 時回傳 null
+   */
+  previous(wrap = false): T | null {
+    if (this.items.length === 0) return null;
+    if (this.position > 0) {
+      this.position--;
+    } else if (wrap) {
+      this.position = this.order.length - 1;
+    } else {
+      return null;
+    }
+    return this.current;
+  }
+
+  /**
+   * 開關隨機順序；目前項目保持不變，其餘重新排列
+   */
+  setShuffle(shuffle: boolean) {
+    if (shuffle === this.shuffled) return;
+    const current = this.currentIndex;
+    this.shuffled = shuffle;
+    if (shuffle) {
+      this.shuffleOrder(current);
+    } else {
+      this.order = this.items.map((_, i) => i);
+      this.position = current;
+    }
+  }
+
+  /**
+   * Fisher–Yates 洗牌；first 指定的項目排在最前面並成為目前項目
+   */
+  private shuffleOrder(first = -1) {
+    const rest = this.items.map((_, i) => i).filter((i) => i !== first);
+    for (let i = rest.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [rest[i], rest[j]] = [rest[j], rest[i]];
+    }
+    this.order = first >= 0 ? [first, ...rest] : rest;
+    this.position = first >= 0 ? 0 : -1;
+  }
+}
+
+/**
+ * 依 MIME 類型判斷項目種類；不是圖片或影片時為 null
+ */
+export function kindFromMimeType(mime: string): NonNullable<PlaylistItem['kind']> | null {
+  if (mime === 'image/gif') return 'animation';
+  if (mime.startsWith('image/')) return 'image';
+  if (mime.startsWith('video/')) return 'video';
+  return null;
+}
+
+/**
+ * 依 data URL 的 MIME 或網址副檔名判斷項目種類
+ */
+export function guessPlaylistItemKind(src: string): NonNullable<PlaylistItem['kind']> {
+  const mime = /^data:([^;,]+)/.exec(src)?.[1];
+  if (mime) return kindFromMimeType(mime) ?? 'video';
+  const ext = /\.([a-z0-9]+)(?:[?#]|$)/i.exec(src)?.[1]?.toLowerCase();
+  if (ext === 'gif') return 'animation';
+  if (ext && ['png', 'jpg', 'jpeg', 'webp', 'bmp', 'avif', 'svg'].includes(ext)) return 'image';
+  return 'video';
+}
@@ -0,0 +1,192 @@
+// sampling.ts
+// 像素取樣：把 RGBA 像素依區塊平均成亮度格或顏色格
+
+import { quantizeRgb } from './ansiPalette';
+import type { ColorPalette } from './ansiPalette';
+
+/**
+ * 原始 RGBA 像素資料（與 ImageData 相容）
+ */
+export interface RawPixels {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/**
+ * 亮度模型：Rec.601 / Rec.709 加權、RGB 平均或單一通道
+ */
+export type LuminanceModel = 'rec601' | 'rec709' | 'average' | 'red' | 'green' | 'blue';
+
+/**
+ * 取樣後的亮度格，每格一個 0~255 的值
+ */
+export interface LuminanceGrid {
+  cols: number;
+  rows: number;
+  values: Float32Array;
+}
+
+/**
+ * 取樣後的顏色格（未量化），每格 3 個 0~255 的值
+ */
+export interface RgbGrid {
+  cols: number;
+  rows: number;
+  rgb: Float32Array;
+}
+
+/**
+ * 依亮度模型計算單一像素的亮度（0~255）
+ */
+export function pixelLuminance(r: number, g: number, b: number, model: LuminanceModel): number {
+  switch (model) {
+    case 'rec709': return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    case 'average': return (r + g + b) / 3;
+    case 'red': return r;
+    case 'green': return g;
+    case 'blue': return b;
+    case 'rec601':
+    default:
+      return 0.299 * r + 0.587 * g + 0.114 * b;
+  }
+}
+
+/**
+ * 依格子大小計算格數；step 可為小數，最小 1 像素
+ */
+export function gridSize(width: number, height: number, stepX: number, stepY: number = stepX): { cols: number; rows: number } {
+  const sx = Math.max(1, stepX);
+  const sy = Math.max(1, stepY);
+  // 減去極小值，避免 1280 / (1280 / 80) 之類的浮點誤差多出一格
+  return {
+    cols: Math.max(1, Math.ceil(width / sx - 1e-6)),
+    rows: Math.max(1, Math.ceil(height / sy - 1e-6)),
+  };
+}
+
+// 第 i 格在單一軸上涵蓋的像素範圍 [start, end)，至少 1 像素
+function cellSpan(i: number, step: number, limit: number): [number, number] {
+  const start = Math.min(limit - 1, Math.floor(i * step));
+  const end = Math.min(limit, Math.max(start + 1, Math.floor((i + 1) * step)));
+  return [start, end];
+}
+
+/**
+ * 以 stepX x stepY 區塊取樣平均亮度（stepY 省略時為正方形）
+ */
+export function sampleLuminanceGrid(pixels: RawPixels, stepX: number, stepY: number = stepX, model: LuminanceModel = 'rec601'): LuminanceGrid {
+  const { width: w, height: h, data: img } = pixels;
+  const sx = Math.max(1, stepX);
+  const sy = Math.max(1, stepY);
+  const { cols, rows } = gridSize(w, h, sx, sy);
+  const values = new Float32Array(cols * rows);
+  for (let cy = 0; cy < rows; cy++) {
+    const [y, yEnd] = cellSpan(cy, sy, h);
+    for (let cx = 0; cx < cols; cx++) {
+      const [x, xEnd] = cellSpan(cx, sx, w);
+      let sum = 0;
+      for (let py = y; py < yEnd; py++) {
+        for (let px = x; px < xEnd; px++) {
+          const idx = (py * w + px) * 4;
+          sum += pixelLuminance(img[idx], img[idx + 1], img[idx + 2], model);
+        }
+      }
+      // 邊緣的格子可能不足一整格，以實際像素數平均
+      values[cy * cols + cx] = sum / ((yEnd - y) * (xEnd - x));
+    }
+  }
+  return { cols, rows, values };
+}
+
+/**
+ * 以 stepX x stepY 區塊取樣平均 RGB（stepY 省略時為正方形）
+ */
+export function sampleRgbGrid(pixels: RawPixels, stepX: number, stepY: number = stepX): RgbGrid {
+  const { width: w, height: h, data: img } = pixels;
+  const sx = Math.max(1, stepX);
+  const sy = Math.max(1, stepY);
+  const { cols, rows } = gridSize(w, h, sx, sy);
+  const rgb = new Float32Array(cols * rows * 3);
+  for (let cy = 0; cy < rows; cy++) {
+    const [y, yEnd] = cellSpan(cy, sy, h);
+    for (let cx = 0; cx < cols; cx++) {
+      const [x, xEnd] = cellSpan(cx, sx, w);
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      for (let py = y; py < yEnd; py++) {
+        for (let px = x; px < xEnd; px++) {
+          const idx = (py * w + px) * 4;
+          r += img[idx];
+          g += img[idx + 1];
+          b += img[idx + 2];
+        }
+      }
+      const n = (yEnd - y) * (xEnd - x);
+      const o = (cy * cols + cx) * 3;
+      rgb[o] = r / n;
+      rgb[o + 1] = g / n;
+      rgb[o + 2] = b / n;
+    }
+  }
+  return { cols, rows, rgb };
+}
+
+/**
+ * 將顏色格再以 bx x by 合併成較粗的格子（超出邊界的部分不計）
+ */
+export function poolRgbGrid(grid: RgbGrid, bx: number, by: number): RgbGrid {
+  const cols = Math.ceil(grid.cols / bx);
+  const rows = Math.ceil(grid.rows / by);
+  const rgb = new Float32Array(cols * rows * 3);
+  for (let cy = 0; cy < rows; cy++) {
+    const yEnd = Math.min(grid.rows, (cy + 1) * by);
+    for (let cx = 0; cx < cols; cx++) {
+      const xEnd = Math.min(grid.cols, (cx + 1) * bx);
+      let r = 0;
+      let g = 0;
+      let b = 0;
+      let n = 0;
+      for (let y = cy * by; y < yEnd; y++) {
+        for (let x = cx * bx; x < xEnd; x++) {
+          const i = (y * grid.cols + x) * 3;
+          r += grid.rgb[i];
+          g += grid.rgb[i + 1];
+          b += grid.rgb[i + 2];
+          n++;
+        }
+      }
+      const o = (cy * cols + cx) * 3;
+      rgb[o] = r / n;
+      rgb[o + 1] = g / n;
+      rgb[o + 2] = b / n;
+    }
+  }
+  return { cols, rows, rgb };
+}
+
+/**
+ * 每格的 RGB 顏色，依列優先排列，每格 3 個位元組
+ * bg 只在需要背景色的模式（如半格）才會提供
+ */
+export interface CellColors {
+  cols: number;
+  rows: number;
+  rgb: Uint8ClampedArray;
+  bg?: Uint8ClampedArray;
+}
+
+/**
+ * 將顏色格量化到指定調色盤
+ */
+export function quantizeRgbGrid(grid: RgbGrid, palette: ColorPalette = 'truecolor'): Uint8ClampedArray {
+  const out = new Uint8ClampedArray(grid.cols * grid.rows * 3);
+  for (let o = 0; o < out.length; o += 3) {
+    const [r, g, b] = quantizeRgb(grid.rgb[o], grid.rgb[o + 1], grid.rgb[o + 2], palette);
+    out[o] = r;
+    out[o + 1] = g;
+    out[o + 2] = b;
+  }
+  return out;
+}
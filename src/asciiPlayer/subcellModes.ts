@@ -0,0 +1,142 @@
+// subcellModes.ts
+// 高解析度模式：點字 (2x4 點/格) 與半格方塊 (上下 2 格/格)
+// 這兩種模式中 step / stepX / stepY 指的是子取樣（點或半格）的大小
+
+import { gridSize, poolRgbGrid, quantizeRgbGrid, sampleLuminanceGrid, sampleRgbGrid } from './sampling';
+import type { LuminanceGrid, RawPixels } from './sampling';
+import { applyTone } from './tone';
+import { quantizeLevels } from './dither';
+import type { DitherState } from './dither';
+import type { AsciiConvertOptions } from './asciiConverter';
+import { resolveCellSize } from './cellSize';
+import { createCompactFrame } from './compactFrame';
+import type { CompactFrame } from './compactFrame';
+
+export const DEFAULT_BRAILLE_THRESHOLD = 128;
+export const DEFAULT_HALF_BLOCK_THRESHOLD = 128;
+
+const BRAILLE_BASE = 0x2800;
+// 點字各點的位元：[列][欄]
+const BRAILLE_BITS = [
+  [0x01, 0x08],
+  [0x02, 0x10],
+  [0x04, 0x20],
+  [0x40, 0x80],
+];
+// 點字字元表：索引即為點的位元組合
+const BRAILLE_CHARSET = Array.from({ length: 256 }, (_, bits) => String.fromCharCode(BRAILLE_BASE + bits));
+// 半格字元表：索引 bit0 為上半、bit1 為下半
+const HALF_BLOCK_CHARSET = [' ', '▀', '▄', '█'];
+const HALF_BLOCK_UPPER = 1;
+
+/**
+ * 取樣子格亮度並套用色調與反轉
+ */
+function sampleSubcells(pixels: RawPixels, options: AsciiConvertOptions): LuminanceGrid {
+  const size = resolveCellSize(options);
+  const grid = sampleLuminanceGrid(pixels, size.x, size.y, options.luminance);
+  applyTone(grid.values, options);
+  if (options.invert) {
+    for (let i = 0; i < grid.values.length; i++) grid.values[i] = 255 - grid.values[i];
+  }
+  return grid;
+}
+
+/**
+ * 依門檻判斷每個子格是否上墨（較暗的一側上墨，與 ASCII 模式的字元密度一致）
+ */
+function inkMask(grid: LuminanceGrid, threshold: number, options: AsciiConvertOptions, state?: DitherState): Uint8Array {
+  const mode = options.dither ?? 'none';
+  const mask = new Uint8Array(grid.values.length);
+  if (mode === 'none') {
+    for (let i = 0; i < mask.length; i++) mask[i] = grid.values[i] < threshold ? 1 : 0;
+    return mask;
+  }
+  // 平移亮度讓門檻落在兩階中點，再交給抖動量化成 0/1
+  const shifted = grid.values.map((v) => v + (127.5 - threshold));
+  const levels = quantizeLevels(shifted, grid.cols, grid.rows, 2, mode, { strength: options.ditherStrength, state });
+  for (let i = 0; i < mask.length; i++) mask[i] = levels[i] === 0 ? 1 : 0;
+  return mask;
+}
+
+/**
+ * 點字模式：每格 2x4 個子取樣，以 U+2800–U+28FF 表示
+ */
+export function convertBraille(pixels: RawPixels, options: AsciiConvertOptions, ditherState?: DitherState): CompactFrame {
+  const sub = sampleSubcells(pixels, options);
+  const mask = inkMask(sub, options.brailleThreshold ?? DEFAULT_BRAILLE_THRESHOLD, options, ditherState);
+  const cols = Math.ceil(sub.cols / 2);
+  const rows = Math.ceil(sub.rows / 4);
+  const frame = createCompactFrame(cols, rows, BRAILLE_CHARSET);
+  for (let cy = 0; cy < rows; cy++) {
+    for (let cx = 0; cx < cols; cx++) {
+      let bits = 0;
+      for (let dy = 0; dy < 4; dy++) {
+        const sy = cy * 4 + dy;
+        if (sy >= sub.rows) break;
+        for (let dx = 0; dx < 2; dx++) {
+          const sx = cx * 2 + dx;
+          if (sx < sub.cols && mask[sy * sub.cols + sx]) bits |= BRAILLE_BITS[dy][dx];
+        }
+      }
+      frame.glyphs[cy * cols + cx] = bits;
+    }
+  }
+
+  if (options.color) {
+    const size = resolveCellSize(options);
+    const pooled = poolRgbGrid(sampleRgbGrid(pixels, size.x, size.y), 2, 4);
+    frame.colors = { cols, rows, rgb: quantizeRgbGrid(pooled, options.palette) };
+  }
+  return frame;
+}
+
+/**
+ * 半格模式：每格上下 2 個子取樣
+ * 彩色時一律輸出 ▀，前景為上半、背景為下半的顏色；單色時依門檻選 █ ▀ ▄ 或空白
+ */
+export function convertHalfBlock(pixels: RawPixels, options: AsciiConvertOptions, ditherState?: DitherState): CompactFrame {
+  const size = resolveCellSize(options);
+  const { cols, rows: subRows } = gridSize(pixels.width, pixels.height, size.x, size.y);
+  const rows = Math.ceil(subRows / 2);
+  const frame = createCompactFrame(cols, rows, HALF_BLOCK_CHARSET);
+
+  if (options.color) {
+    const grid = sampleRgbGrid(pixels, size.x, size.y);
+    const q = quantizeRgbGrid(grid, options.palette);
+    const rgb = new Uint8ClampedArray(cols * rows * 3);
+    const bg = new Uint8ClampedArray(cols * rows * 3);
+    for (let cy = 0; cy < rows; cy++) {
+      const top = cy * 2;
+      // 最後一列沒有下半時，背景沿用上半的顏色
+      const bottom = Math.min(top + 1, subRows - 1);
+      frame.glyphs.fill(HALF_BLOCK_UPPER, cy * cols, (cy + 1) * cols);
+      for (let cx = 0; cx < cols; cx++) {
+        const o = (cy * cols + cx) * 3;
+        const t = (top * cols + cx) * 3;
+        const b = (bottom * cols + cx) * 3;
+        rgb[o] = q[t];
+        rgb[o + 1] = q[t + 1];
+        rgb[o + 2] = q[t + 2];
+        bg[o] = q[b];
+        bg[o + 1] = q[b + 1];
+        bg[o + 2] = q[b + 2];
+      }
+    }
+    frame.colors = { cols, rows, rgb, bg };
+    return frame;
+  }
+
+  const sub = sampleSubcells(pixels, options);
+  const mask = inkMask(sub, options.halfBlockThreshold ?? DEFAULT_HALF_BLOCK_THRESHOLD, options, ditherState);
+  for (let cy = 0; cy < rows; cy++) {
+    const top = cy * 2;
+    const bottom = top + 1;
+    for (let cx = 0; cx < cols; cx++) {
+      const t = mask[top * cols + cx];
+      const b = bottom < subRows ? mask[bottom * cols + cx] : 0;
+      frame.glyphs[cy * cols + cx] = t | (b << 1);
+    }
+  }
+  return frame;
+}
@@ -0,0 +1,70 @@
+// tone.ts
+// 亮度格的色調調整
+
+import type { LuminanceModel } from './sampling';
+
+/**
+ * 色調調整
+ * - brightness: -1 ~ 1，加在 0~1 的亮度上
+ * - contrast: 0 以上，以中灰為中心縮放（1 = 不變）
+ * - gamma: 大於 0（1 = 不變，越大越亮）
+ * - autoLevels: 依每幀最暗/最亮的格子拉伸到完整範圍
+ */
+export interface ToneOptions {
+  luminance: LuminanceModel;
+  brightness: number;
+  contrast: number;
+  gamma: number;
+  autoLevels: boolean;
+}
+
+export const DEFAULT_TONE: ToneOptions = {
+  luminance: 'rec601',
+  brightness: 0,
+  contrast: 1,
+  gamma: 1,
+  autoLevels: false,
+};
+
+/**
+ * 就地套用色調調整（autoLevels → brightness/contrast → gamma）
+ */
+export function applyTone(values: Float32Array, tone: Partial<ToneOptions>): Float32Array {
+  const { brightness, contrast, gamma, autoLevels } = { ...DEFAULT_TONE, ...tone };
+  let lo = 0;
+  let hi = 255;
+  if (autoLevels && values.length > 0) {
+    lo = Infinity;
+    hi = -Infinity;
+    for (let i = 0; i < values.length; i++) {
+      if (values[i] < lo) lo = values[i];
+      if (values[i] > hi) hi = values[i];
+    }
+    if (hi - lo < 1) {
+      lo = 0;
+      hi = 255;
+    }
+  }
+  const range = hi - lo;
+  const invGamma = 1 / Math.max(0.01, gamma);
+  const c = Math.max(0, contrast);
+  for (let i = 0; i < values.length; i++) {
+    let v = (values[i] - lo) / range;
+    v = (v - 0.5) * c + 0.5 + brightness;
+    v = v <= 0 ? 0 : v >= 1 ? 1 : v;
+    if (invGamma !== 1) v = Math.pow(v, invGamma);
+    values[i] = v * 255;
+  }
+  return values;
+}
+
+/**
+ * 就地套用反轉與亮部門檻（超過門檻視為全白）
+ */
+export function applyThreshold(values: Float32Array, threshold: number, invert = false): Float32Array {
+  for (let i = 0; i < values.length; i++) {
+    const v = invert ? 255 - values[i] : values[i];
+    values[i] = v > threshold ? 255 : v;
+  }
+  return values;
+}
@@ -0,0 +1,125 @@
+// zipArchive.ts
+// 最小的 ZIP 寫入器：只用 STORE（不壓縮），足以打包純文字幀
+
+export interface ZipEntry {
+  name: string;
+  data: string | Uint8Array;
+}
+
+// ZIP 的檔案數與大小欄位為 16 / 32 位元（不支援 ZIP64）
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS 格式的日期與時間（2 秒精度，1980 年起）
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear());
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * 建立 ZIP 檔（檔名以 UTF-8 儲存）
+ */
+export function createZip(entries: ZipEntry[], modified = new Date()): Uint8Array<ArrayBuffer> {
+  if (entries.length > MAX_ENTRIES) {
+    throw new Error(`ZIP archive cannot contain more than ${MAX_ENTRIES} files (got ${entries.length}).`);
+  }
+  const encoder = new TextEncoder();
+  const stamp = dosDateTime(modified);
+  const files = entries.map((entry) => {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    if (data.length > MAX_SIZE) throw new Error(`File "${entry.name}" is too large for a ZIP archive.`);
+    return { name, data, crc: crc32(data) };
+  });
+
+  const localSize = files.reduce((sum, f) => sum + 30 + f.name.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.name.length, 0);
+  if (localSize + centralSize > MAX_SIZE) throw new Error('ZIP archive is too large.');
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+  let p = 0;
+  const u16 = (v: number) => {
+    view.setUint16(p, v, true);
+    p += 2;
+  };
+  const u32 = (v: number) => {
+    view.setUint32(p, v, true);
+    p += 4;
+  };
+  const bytes = (b: Uint8Array) => {
+    out.set(b, p);
+    p += b.length;
+  };
+  // 通用旗標第 11 位元：檔名為 UTF-8
+  const FLAGS = 0x0800;
+
+  const offsets: number[] = [];
+  for (const f of files) {
+    offsets.push(p);
+    u32(0x04034b50);
+    u16(20);
+    u16(FLAGS);
+    u16(0);
+    u16(stamp.time);
+    u16(stamp.date);
+    u32(f.crc);
+    u32(f.data.length);
+    u32(f.data.length);
+    u16(f.name.length);
+    u16(0);
+    bytes(f.name);
+    bytes(f.data);
+  }
+
+  const centralStart = p;
+  files.forEach((f, i) => {
+    u32(0x02014b50);
+    u16(20);
+    u16(20);
+    u16(FLAGS);
+    u16(0);
+    u16(stamp.time);
+    u16(stamp.date);
+    u32(f.crc);
+    u32(f.data.length);
+    u32(f.data.length);
+    u16(f.name.length);
+    u16(0);
+    u16(0);
+    u16(0);
+    u16(0);
+    u32(0);
+    u32(offsets[i]);
+    bytes(f.name);
+  });
+
+  const centralLength = p - centralStart;
+  u32(0x06054b50);
+  u16(0);
+  u16(0);
+  u16(files.length);
+  u16(files.length);
+  u32(centralLength);
+  u32(centralStart);
+  u16(0);
+  return out;
+}
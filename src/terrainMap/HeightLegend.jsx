@@ -0,0 +1,80 @@
+import { getColorByHeightGroup, OPACITY_MODE_COLOR, opacityAt } from './heightColors'
+
+// 依數值範圍決定小數位數
+function formatValue(value, span) {
+  const digits = span >= 100 ? 0 : span >= 1 ? 2 : 4
+  return value.toLocaleString(undefined, { maximumFractionDigits: digits })
+}
+
+// 十六進位顏色加上不透明度
+function withAlpha(hex, alpha) {
+  return `${hex}${Math.round(alpha * 255).toString(16).padStart(2, '0')}`
+}
+
+// 地形配色圖例：區間化時列出每個區間的值範圍，連續時顯示色帶與各分級邊界
+// legend 來自 TerrainMap 的 onLegendChange，值為資料原本的單位
+function HeightLegend({ legend }) {
+  const { colorMode, continuous, stops, breaks } = legend
+  const bands = breaks.length - 1
+  const span = breaks[bands] - breaks[0]
+  const isOpacityMode = colorMode === 'opacity'
+
+  const boxStyle = {
+    position: 'absolute',
+    right: 20,
+    bottom: 20,
+    zIndex: 1,
+    padding: '10px 12px',
+    background: 'rgba(0, 0, 0, 0.6)',
+    border: '1px solid #333',
+    borderRadius: '4px',
+    color: '#fff',
+    fontFamily: 'monospace',
+    fontSize: '12px',
+  }
+
+  if (continuous) {
+    const gradient = isOpacityMode
+      ? `linear-gradient(to top, ${withAlpha(OPACITY_MODE_COLOR, opacityAt(0))}, ${withAlpha(OPACITY_MODE_COLOR, opacityAt(1))})`
+      : `linear-gradient(to top, ${stops.map(([t, color]) => `${color} ${t * 100}%`).join(', ')})`
+    return (
+      <div style={boxStyle}>
+        <div style={{ marginBottom: '6px' }}>高度</div>
+        <div style={{ display: 'flex', gap: '8px', height: '160px' }}>
+          <div style={{ width: '14px', background: gradient, border: '1px solid #555' }} />
+          <div style={{ position: 'relative', minWidth: '60px' }}>
+            {breaks.map((value, k) => (
+              <span
+                key={k}
+                style={{ position: 'absolute', bottom: `${(k / bands) * 100}%`, transform: 'translateY(50%)', whiteSpace: 'nowrap' }}
+              >
+                {formatValue(value, span)}
+              </span>
+            ))}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  // 由高到低列出
+  const rows = Array.from({ length: bands }, (_, k) => bands - 1 - k)
+  return (
+    <div style={boxStyle}>
+      <div style={{ marginBottom: '6px' }}>高度</div>
+      {rows.map(k => {
+        const color = isOpacityMode
+          ? withAlpha(OPACITY_MODE_COLOR, opacityAt(bands > 1 ? k / (bands - 1) : 0.5))
+          : getColorByHeightGroup(k, bands, stops)
+        return (
+          <div key={k} style={{ display: 'flex', alignItems: 'center', gap: '8px', lineHeight: '18px' }}>
+            <span style={{ width: '14px', height: '12px', background: color, border: '1px solid #555' }} />
+            <span>{formatValue(breaks[k], span)} ~ {formatValue(breaks[k + 1], span)}</span>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default HeightLegend
@@ -0,0 +1,84 @@
+import { useEffect, useMemo } from 'react'
+import { useThree } from '@react-three/fiber'
+import * as THREE from 'three'
+import { HEIGHT_COLORS } from './heightColors'
+
+// 依高度把 HEIGHT_COLORS 線性內插成每點的顏色（0~255），寫入 colors
+function heightColors(positions, count, minY, maxY, colors) {
+  const ramp = HEIGHT_COLORS.map(hex => new THREE.Color(hex))
+  const range = maxY - minY || 1
+  for (let i = 0; i < count; i++) {
+    const t = ((positions[i * 3 + 1] - minY) / range) * (ramp.length - 1)
+    const k = Math.min(Math.floor(t), ramp.length - 2)
+    const f = t - k
+    const a = ramp[k]
+    const b = ramp[k + 1]
+    colors[i * 3] = (a.r + (b.r - a.r) * f) * 255
+    colors[i * 3 + 1] = (a.g + (b.g - a.g) * f) * 255
+    colors[i * 3 + 2] = (a.b + (b.b - a.b) * f) * 255
+  }
+  return colors
+}
+
+// 以 THREE.Points 畫出點雲
+// 水平長邊縮放到 worldSize；資料 z 朝上、three.js y 朝上，因此 (x, y, z) → (x, z, -y)，最低點放在 y = 0
+// colorMode: 'rgb' 使用檔案中的顏色（沒有顏色時改用高度），'height' 依高度上色
+function PointCloud({ cloud, colorMode = 'rgb', pointSize = 0.3, worldSize = 60 }) {
+  const get = useThree(state => state.get)
+  // OrbitControls 以 makeDefault 註冊後才存在，訂閱它讓框選在控制器就緒後重跑
+  const controls = useThree(state => state.controls)
+
+  // top 為縮放後最高點的 y
+  const { geometry, top } = useMemo(() => {
+    const { min, max } = cloud.bounds
+    const scale = worldSize / Math.max(max[0] - min[0], max[1] - min[1], 1e-9)
+    const src = cloud.positions
+    const positions = new Float32Array(cloud.count * 3)
+    for (let i = 0; i < cloud.count; i++) {
+      positions[i * 3] = src[i * 3] * scale
+      positions[i * 3 + 1] = (src[i * 3 + 2] - min[2]) * scale
+      positions[i * 3 + 2] = -src[i * 3 + 1] * scale
+    }
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+    // 顏色屬性每個幾何體只配置一次，切換顏色模式時複製進去，不會留下沒釋放的 GPU 緩衝區
+    geometry.setAttribute('color', new THREE.BufferAttribute(new Uint8Array(cloud.count * 3), 3, true))
+    geometry.computeBoundingSphere()
+    return { geometry, top: (max[2] - min[2]) * scale }
+  }, [cloud, worldSize])
+
+  // 換點雲時釋放舊的 GPU 資源
+  useEffect(() => () => geometry.dispose(), [geometry])
+
+  // 顏色改變時只更新 color 屬性的內容
+  useEffect(() => {
+    const attribute = geometry.getAttribute('color')
+    if (colorMode === 'rgb' && cloud.colors) attribute.array.set(cloud.colors)
+    else heightColors(geometry.getAttribute('position').array, cloud.count, 0, top, attribute.array)
+    attribute.needsUpdate = true
+  }, [geometry, top, cloud, colorMode])
+
+  // 載入新點雲時讓相機框住整個外框
+  useEffect(() => {
+    const { camera, controls } = get()
+    const sphere = geometry.boundingSphere
+    const distance = (sphere.radius / Math.sin((camera.fov * Math.PI) / 360)) * 1.1
+    const direction = new THREE.Vector3(1, 0.8, 1).normalize()
+    camera.position.copy(sphere.center).addScaledVector(direction, distance)
+    camera.far = Math.max(camera.far, distance * 4)
+    camera.updateProjectionMatrix()
+    camera.lookAt(sphere.center)
+    if (controls) {
+      controls.target.copy(sphere.center)
+      controls.update()
+    }
+  }, [geometry, get, controls])
+
+  return (
+    <points geometry={geometry}>
+      <pointsMaterial size={pointSize} vertexColors sizeAttenuation />
+    </points>
+  )
+}
+
+export default PointCloud
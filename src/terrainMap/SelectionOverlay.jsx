@@ -0,0 +1,79 @@
+import { useState } from 'react'
+
+// 套索取點的最小間距（像素）
+const LASSO_MIN_STEP = 4
+// 範圍小於此像素數時視為誤觸
+const MIN_SELECTION_SIZE = 4
+
+// 方框的四個角
+function boxPolygon([x0, y0], [x1, y1]) {
+  return [[x0, y0], [x1, y0], [x1, y1], [x0, y1]]
+}
+
+// 蓋在畫布上的選取層：mode 為 'box' 時拖曳出方框，'lasso' 時沿拖曳路徑圈選
+// 放開滑鼠後以 onSelect 回傳 { mode, polygon }，polygon 為 NDC 座標（-1~1，y 朝上）
+// 選取層要排在 <Canvas> 之後才會蓋在畫布上並攔下滑鼠事件；選取期間應停用 OrbitControls
+function SelectionOverlay({ mode, onSelect }) {
+  const [points, setPoints] = useState(null) // 拖曳中的螢幕座標
+
+  const localPoint = (e) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    return [e.clientX - rect.left, e.clientY - rect.top]
+  }
+
+  const handlePointerDown = (e) => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    const p = localPoint(e)
+    setPoints([p, p])
+  }
+
+  const handlePointerMove = (e) => {
+    if (!points) return
+    const p = localPoint(e)
+    if (mode === 'box') {
+      setPoints([points[0], p])
+      return
+    }
+    const [lx, ly] = points[points.length - 1]
+    if (Math.hypot(p[0] - lx, p[1] - ly) >= LASSO_MIN_STEP) setPoints([...points, p])
+  }
+
+  const handlePointerUp = (e) => {
+    if (!points) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const polygon = mode === 'box' ? boxPolygon(points[0], points[points.length - 1]) : points
+    setPoints(null)
+    const xs = polygon.map(p => p[0])
+    const ys = polygon.map(p => p[1])
+    if (Math.max(...xs) - Math.min(...xs) < MIN_SELECTION_SIZE || Math.max(...ys) - Math.min(...ys) < MIN_SELECTION_SIZE) return
+    onSelect({
+      mode,
+      polygon: polygon.map(([x, y]) => [(x / rect.width) * 2 - 1, -(y / rect.height) * 2 + 1]),
+    })
+  }
+
+  const shape = points && (mode === 'box' ? boxPolygon(points[0], points[points.length - 1]) : points)
+
+  return (
+    <div
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      style={{ position: 'absolute', inset: 0, zIndex: 0, cursor: 'crosshair', touchAction: 'none' }}
+    >
+      {shape && (
+        <svg width="100%" height="100%" style={{ position: 'absolute', inset: 0, pointerEvents: 'none' }}>
+          <polygon
+            points={shape.map(p => p.join(',')).join(' ')}
+            fill="rgba(0, 217, 255, 0.15)"
+            stroke="#00d9ff"
+            strokeWidth="1.5"
+            strokeDasharray="4 3"
+          />
+        </svg>
+      )}
+    </div>
+  )
+}
+
+export default SelectionOverlay
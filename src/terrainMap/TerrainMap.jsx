@@ -0,0 +1,550 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { useFrame, useThree } from '@react-three/fiber'
+import { Html } from '@react-three/drei'
+import * as THREE from 'three'
+import { createColumns, heightGridToColumns } from './heightMapLoaders'
+import { COLOR_RAMPS, computeBreaks, OPACITY_MODE_COLOR, opacityAt, rampColor, valuePosition } from './heightColors'
+
+// 每個區塊的邊長（格數）；需為 2 的次方，各層 LOD 的間隔才會與區塊邊界對齊
+const CHUNK_CELLS = 64
+// LOD 最多把 2^MAX_LOD x 2^MAX_LOD 格合併成一根方柱
+const MAX_LOD = 4
+// 方柱少於此數量時全部以最細的層級顯示
+const LOD_MIN_COLUMNS = 20000
+// 方柱在畫面上的寬度小於此像素數時改用較粗的層級
+const LOD_MIN_PIXELS = 4
+// 最低點的方柱仍保留一點高度，避免縮放為 0 而消失
+const MIN_COLUMN_HEIGHT = 0.05
+// 連續配色時預先取樣的色帶顏色數
+const CONTINUOUS_SAMPLES = 256
+const OPACITY_COLOR = new THREE.Color(OPACITY_MODE_COLOR)
+
+// 預設值放在元件外，避免每次 render 都是新陣列而重算分級
+const EMPTY_BREAKS = []
+
+// 底面在 y = 0 的單位方柱，實例矩陣的縮放即為寬度與高度
+const UNIT_BOX = new THREE.BoxGeometry(1, 1, 1).translate(0, 0.5, 0)
+const UNIT_EDGES = new THREE.EdgesGeometry(UNIT_BOX)
+// 拖曳超過此像素數就不算點擊（避免旋轉視角時誤釘選）
+const CLICK_MAX_DRAG = 4
+// 未顯示的區塊（尚未寫入或在視野外）
+const HIDDEN = -1
+const NO_COLUMNS = new Int32Array(0)
+
+// 生成模擬的高度圖資料（載入真實資料見 heightMapLoaders）
+function generateHeightMapData(width, height, isCircular = false, sampling = 1) {
+  const columns = createColumns(Math.ceil(width / sampling) * Math.ceil(height / sampling))
+  const centerX = width / 2
+  const centerY = height / 2
+  const radius = Math.min(width, height) / 2
+
+  for (let y = 0; y < height; y += sampling) {
+    for (let x = 0; x < width; x += sampling) {
+      // 如果是圓形模式，檢查點是否在圓內
+      if (isCircular) {
+        const dx = x - centerX
+        const dy = y - centerY
+        const distance = Math.sqrt(dx * dx + dy * dy)
+        if (distance > radius) continue // 跳過圓外的點
+      }
+
+      // 使用多個正弦波模擬地形
+      const nx = x / width - 0.5
+      const ny = y / height - 0.5
+      const height1 = Math.sin(nx * Math.PI * 4) * Math.cos(ny * Math.PI * 4) * 0.3
+      const height2 = Math.sin(nx * Math.PI * 8 + ny * Math.PI * 8) * 0.15
+      const height3 = Math.sin((nx + ny) * Math.PI * 12) * 0.1
+      const heightValue = (height1 + height2 + height3 + 0.5) * 10
+      const i = columns.count++
+      columns.xs[i] = x
+      columns.ys[i] = y
+      columns.heights[i] = heightValue
+      columns.values[i] = heightValue
+    }
+  }
+  return columns
+}
+
+// 把方柱依格子座標分成區塊，並為每個區塊建立各層 LOD 的方柱索引
+// 第 k 層只保留格子座標為 sampling * 2^k 倍數的方柱，每根代表 2^k x 2^k 格
+// 所有區塊共用一個 InstancedMesh，實例緩衝區以全部方柱的數量配置；
+// states 記錄每個區塊目前的層級、方柱索引與在緩衝區中的起點（見 packChunks）
+function buildChunks(columns, sampling, maxLevel) {
+  const size = CHUNK_CELLS * sampling
+  const groups = new Map()
+  for (let i = 0; i < columns.count; i++) {
+    const key = `${Math.floor(columns.xs[i] / size)},${Math.floor(columns.ys[i] / size)}`
+    let list = groups.get(key)
+    if (!list) groups.set(key, (list = []))
+    list.push(i)
+  }
+  let capacity = 0
+  const list = [...groups].map(([id, indices]) => {
+    const base = Int32Array.from(indices)
+    const levels = [base]
+    for (let k = 1; k <= maxLevel; k++) {
+      const step = sampling * 2 ** k
+      levels.push(base.filter(i => columns.xs[i] % step === 0 && columns.ys[i] % step === 0))
+    }
+    let minX = Infinity
+    let maxX = -Infinity
+    let minY = Infinity
+    let maxY = -Infinity
+    let top = 0
+    for (const i of base) {
+      minX = Math.min(minX, columns.xs[i])
+      maxX = Math.max(maxX, columns.xs[i])
+      minY = Math.min(minY, columns.ys[i])
+      maxY = Math.max(maxY, columns.ys[i])
+      top = Math.max(top, columns.heights[i])
+    }
+    capacity += base.length
+    return { id, levels, bounds: { minX, maxX: maxX + sampling, minY, maxY: maxY + sampling, top } }
+  })
+  // 與區塊一起建立，換資料的那一幀就不會讀到舊區塊的狀態；全部先不顯示，等下一幀依相機決定層級
+  const states = list.map(() => ({ level: HIDDEN, indices: NO_COLUMNS, start: 0 }))
+
+  // 實例屬性在掛上 mesh 前就建立好，材質第一次編譯時就有 instanceColor
+  const geometry = UNIT_BOX.clone()
+  geometry.setAttribute('instanceOpacity', new THREE.InstancedBufferAttribute(new Float32Array(capacity), 1))
+  const instanceMatrix = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 16), 16)
+  const instanceColor = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 3), 3)
+  instanceMatrix.setUsage(THREE.DynamicDrawUsage)
+  instanceColor.setUsage(THREE.DynamicDrawUsage)
+  return { list, states, capacity, geometry, instanceMatrix, instanceColor }
+}
+
+// 實例位置所屬的區塊（區塊狀態依 start 遞增排列）
+function chunkAt(states, slot) {
+  let lo = 0
+  let hi = states.length - 1
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1
+    if (states[mid].start <= slot) lo = mid
+    else hi = mid - 1
+  }
+  return lo
+}
+
+// 在標準材質中加上每個實例的不透明度，自發光也跟著實例顏色
+function patchInstanceShader(shader) {
+  shader.vertexShader = shader.vertexShader
+    .replace('#include <common>', '#include <common>\nattribute float instanceOpacity;\nvarying float vInstanceOpacity;')
+    .replace('#include <begin_vertex>', '#include <begin_vertex>\nvInstanceOpacity = instanceOpacity;')
+  shader.fragmentShader = shader.fragmentShader
+    .replace('#include <common>', '#include <common>\nvarying float vInstanceOpacity;')
+    .replace('#include <color_fragment>', '#include <color_fragment>\ndiffuseColor.a *= vInstanceOpacity;')
+    .replace('#include <emissivemap_fragment>', '#include <emissivemap_fragment>\ntotalEmissiveRadiance *= vColor;')
+}
+
+// 區塊的外接球（地圖座標，尚未套用群組的旋轉）
+function chunkSphere(chunk, layout) {
+  const { spacing, mapWidth, mapHeight } = layout
+  const { minX, maxX, minY, maxY, top } = chunk.bounds
+  const halfW = ((maxX - minX) / 2) * spacing
+  const halfD = ((maxY - minY) / 2) * spacing
+  const halfH = (Math.max(top, MIN_COLUMN_HEIGHT) / 2) * spacing
+  const center = new THREE.Vector3(
+    ((minX + maxX) / 2 - mapWidth / 2) * spacing,
+    halfH,
+    ((minY + maxY) / 2 - mapHeight / 2) * spacing,
+  )
+  return new THREE.Sphere(center, Math.sqrt(halfW * halfW + halfD * halfD + halfH * halfH))
+}
+
+// 第 i 根方柱在指定層級的底面中心 x / z、寬度與高度（群組座標），寫入 out
+function columnTransform(columns, i, level, layout, out) {
+  const { spacing, boxSize, sampling, mapWidth, mapHeight } = layout
+  const step = 2 ** level
+  // 粗層級的方柱放在它代表的區域中央
+  const offset = ((step - 1) * sampling) / 2
+  out.x = (columns.xs[i] + offset - mapWidth / 2) * spacing
+  out.z = (columns.ys[i] + offset - mapHeight / 2) * spacing
+  out.width = spacing * boxSize * step
+  out.height = Math.max(columns.heights[i], MIN_COLUMN_HEIGHT) * spacing
+  return out
+}
+
+// 寫入一個區塊目前層級的實例矩陣（只有平移與縮放，直接填入矩陣元素）
+function writeMatrices(mesh, chunkState, columns, layout) {
+  const { level, indices, start } = chunkState
+  const array = mesh.instanceMatrix.array
+  const t = {}
+  for (let n = 0; n < indices.length; n++) {
+    columnTransform(columns, indices[n], level, layout, t)
+    const o = (start + n) * 16
+    array.fill(0, o, o + 16)
+    array[o] = t.width
+    array[o + 5] = t.height
+    array[o + 10] = t.width
+    array[o + 12] = t.x
+    array[o + 14] = t.z
+    array[o + 15] = 1
+  }
+}
+
+// 預先取樣色帶：區間化時每個區間一色，連續時取 CONTINUOUS_SAMPLES 色，避免每根方柱都內插
+function samplePalette(stops, size) {
+  const palette = new Float32Array(size * 3)
+  const color = new THREE.Color()
+  for (let k = 0; k < size; k++) rampColor(stops, size > 1 ? k / (size - 1) : 0.5, color).toArray(palette, k * 3)
+  return palette
+}
+
+// 寫入一個區塊的實例顏色與不透明度（依原始單位的值分級）
+function writeColors(mesh, chunkState, columns, style) {
+  const { indices, start } = chunkState
+  const { colorMode, breaks, continuous, palette } = style
+  const last = palette.length / 3 - 1
+  const colors = mesh.instanceColor.array
+  const opacity = mesh.geometry.attributes.instanceOpacity
+  for (let n = 0; n < indices.length; n++) {
+    const slot = start + n
+    const t = valuePosition(columns.values[indices[n]], breaks, continuous) // 0-1 的高度比例
+    if (colorMode === 'opacity') {
+      // 透明度模式：統一水藍色，越高越不透明
+      OPACITY_COLOR.toArray(colors, slot * 3)
+      opacity.array[slot] = opacityAt(t)
+    } else {
+      // 漸層色模式：依色帶上色，完全不透明
+      const p = Math.round(t * last) * 3
+      colors[slot * 3] = palette[p]
+      colors[slot * 3 + 1] = palette[p + 1]
+      colors[slot * 3 + 2] = palette[p + 2]
+      opacity.array[slot] = 1
+    }
+  }
+}
+
+// 標記實例屬性中 [start, end) 的實例需要重新上傳
+function markInstances(attribute, start, end) {
+  if (end <= start) return
+  attribute.addUpdateRange(start * attribute.itemSize, (end - start) * attribute.itemSize)
+  attribute.needsUpdate = true
+}
+
+// 把一段實例（矩陣、顏色與不透明度）從 from 搬到 to
+function moveInstances(mesh, from, to, count) {
+  mesh.instanceMatrix.array.copyWithin(to * 16, from * 16, (from + count) * 16)
+  mesh.instanceColor.array.copyWithin(to * 3, from * 3, (from + count) * 3)
+  mesh.geometry.attributes.instanceOpacity.array.copyWithin(to, from, from + count)
+}
+
+// 依新的層級把顯示中的區塊依序緊密排在實例緩衝區前段，回傳用到的實例數（即 mesh.count）
+// 視野外的區塊不佔位置，GPU 只處理畫面上需要的方柱；層級沒變的區塊只搬移既有資料，有變的才重寫
+function packChunks(mesh, chunks, levels, columns, layout, style) {
+  const { list, states } = chunks
+  const next = []
+  let used = 0
+  list.forEach((chunk, i) => {
+    const indices = levels[i] === HIDDEN ? NO_COLUMNS : chunk.levels[levels[i]]
+    next.push({ level: levels[i], indices, start: used })
+    used += indices.length
+  })
+  // 區塊的先後順序不變：往後搬的由後往前搬、往前搬的由前往後搬，就不會蓋到還沒搬的資料
+  const kept = i => states[i].level === next[i].level
+  for (let i = list.length - 1; i >= 0; i--) {
+    if (kept(i) && next[i].start > states[i].start) moveInstances(mesh, states[i].start, next[i].start, next[i].indices.length)
+  }
+  for (let i = 0; i < list.length; i++) {
+    if (kept(i) && next[i].start < states[i].start) moveInstances(mesh, states[i].start, next[i].start, next[i].indices.length)
+  }
+  let dirty = used
+  for (let i = 0; i < list.length; i++) {
+    if (!kept(i)) {
+      writeMatrices(mesh, next[i], columns, layout)
+      writeColors(mesh, next[i], columns, style)
+    }
+    if (!kept(i) || next[i].start !== states[i].start) dirty = Math.min(dirty, next[i].start)
+    states[i] = next[i]
+  }
+  markInstances(mesh.instanceMatrix, dirty, used)
+  markInstances(mesh.instanceColor, dirty, used)
+  markInstances(mesh.geometry.attributes.instanceOpacity, dirty, used)
+  return used
+}
+
+const _inverse = new THREE.Matrix4()
+const _ray = new THREE.Ray()
+const _box = new THREE.Box3()
+const _point = new THREE.Vector3()
+
+// 射線檢測：先以區塊外接球篩選，再檢查該區塊目前顯示的方柱（群組座標中的軸對齊方塊）
+// 取代 InstancedMesh 逐一測試所有實例的預設做法
+function raycastChunks(mesh, raycaster, intersects, chunks, spheres, columns, layout) {
+  _inverse.copy(mesh.matrixWorld).invert()
+  _ray.copy(raycaster.ray).applyMatrix4(_inverse)
+  const t = {}
+  chunks.states.forEach((state, i) => {
+    if (state.level === HIDDEN || !_ray.intersectsSphere(spheres[i])) return
+    for (let n = 0; n < state.indices.length; n++) {
+      columnTransform(columns, state.indices[n], state.level, layout, t)
+      const half = t.width / 2
+      _box.min.set(t.x - half, 0, t.z - half)
+      _box.max.set(t.x + half, t.height, t.z + half)
+      if (!_ray.intersectBox(_box, _point)) continue
+      _point.applyMatrix4(mesh.matrixWorld)
+      const distance = raycaster.ray.origin.distanceTo(_point)
+      if (distance < raycaster.near || distance > raycaster.far) continue
+      intersects.push({ distance, point: _point.clone(), object: mesh, instanceId: state.start + n })
+    }
+  })
+}
+
+// 依方柱在畫面上的寬度選擇 LOD 層級
+function pickLevel(distance, columnWidth, camera, viewHeight, maxLevel) {
+  if (maxLevel === 0) return 0
+  const pixels = (columnWidth * viewHeight) / (2 * Math.max(distance, 1e-6) * Math.tan((camera.fov * Math.PI) / 360))
+  if (pixels >= LOD_MIN_PIXELS) return 0
+  return Math.min(maxLevel, Math.ceil(Math.log2(LOD_MIN_PIXELS / pixels)))
+}
+
+// 方柱的檢視資訊：格子座標、原始單位的高度與頂面中心的世界座標
+// columns 用來判斷資訊是否仍屬於目前的資料
+function inspectColumn(columns, index, level, layout, group) {
+  const t = columnTransform(columns, index, level, layout, {})
+  const world = group.localToWorld(new THREE.Vector3(t.x, t.height, t.z))
+  return {
+    index,
+    level,
+    gridX: columns.xs[index],
+    gridY: columns.ys[index],
+    value: columns.values[index],
+    world: world.toArray(),
+    columns,
+  }
+}
+
+// 點是否在多邊形內（射線法）；polygon 為 [x, y] 陣列
+function pointInPolygon(x, y, polygon) {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i]
+    const [xj, yj] = polygon[j]
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside
+  }
+  return inside
+}
+
+// 方柱外框，用來標示滑鼠所指或釘選的方柱
+function ColumnHighlight({ transform, color }) {
+  const { x, z, width, height } = transform
+  return (
+    <lineSegments geometry={UNIT_EDGES} position={[x, 0, z]} scale={[width * 1.1, height * 1.02 + 0.02, width * 1.1]}>
+      <lineBasicMaterial color={color} depthTest={false} transparent />
+    </lineSegments>
+  )
+}
+
+// 地形方柱：所有方柱在同一個 InstancedMesh（一次 draw call），顏色與不透明度為實例屬性
+// 區塊依與相機的距離切換 LOD，只有視野內的區塊排進實例範圍（mesh.count）
+// 只改樣式（colorMode、色帶、分級）時只重寫顏色，改 boxSize / 間距時只重寫矩陣
+// colorStops: 色帶色標（見 heightColors 的 COLOR_RAMPS）；bandCount: 區間數，continuous 為連續配色
+// breakMethod: 'equal' | 'quantile' | 'custom'（customBreaks 為原始單位的邊界）
+// onLegendChange 會收到 { colorMode, continuous, stops, breaks } 供圖例顯示
+// 滑鼠移到方柱上顯示格子座標與高度，點擊時以 onInspect 回傳檢視資訊；inspected 為目前釘選的方柱，資料改變後以 onInspect(null) 取消
+// selection.polygon 為螢幕 NDC 座標的選取範圍，統計範圍內方柱後以 onSelectionStats 回傳 { count, min, max, mean }
+function TerrainMap({ grid = null, mapWidth = 50, mapHeight = 50, spacing = 0.5, colorMode = 'opacity', isCircular = false, sampling = 1, boxSize = 0.6, exaggeration = 1, nodata = 'skip', colorStops = COLOR_RAMPS.classic.stops, bandCount = 10, continuous = false, breakMethod = 'equal', customBreaks = EMPTY_BREAKS, onLegendChange, inspected = null, onInspect, selection = null, onSelectionStats }) {
+  const get = useThree(state => state.get)
+  const [hovered, setHovered] = useState(null)
+  const groupRef = useRef(null)
+  const meshRef = useRef(null)
+
+  // 生成地形資料；有載入的高度格時使用高度格
+  const columns = useMemo(() => {
+    if (grid) return heightGridToColumns(grid, { exaggeration, sampling, isCircular, nodata })
+    return generateHeightMapData(mapWidth, mapHeight, isCircular, sampling)
+  }, [grid, exaggeration, nodata, mapWidth, mapHeight, isCircular, sampling])
+
+  // 依原始單位的值分級
+  const breaks = useMemo(
+    () => computeBreaks(columns.values.subarray(0, columns.count), bandCount, breakMethod, customBreaks),
+    [columns, bandCount, breakMethod, customBreaks],
+  )
+
+  const maxLevel = columns.count < LOD_MIN_COLUMNS ? 0 : MAX_LOD
+  const chunks = useMemo(() => buildChunks(columns, sampling, maxLevel), [columns, sampling, maxLevel])
+
+  // 區塊改變時釋放舊的幾何體
+  useEffect(() => () => chunks.geometry.dispose(), [chunks])
+
+  const layout = useMemo(
+    () => ({ spacing, boxSize, sampling, mapWidth, mapHeight }),
+    [spacing, boxSize, sampling, mapWidth, mapHeight],
+  )
+  const spheres = useMemo(() => chunks.list.map(chunk => chunkSphere(chunk, layout)), [chunks, layout])
+  const style = useMemo(() => {
+    const palette = samplePalette(colorStops, continuous ? CONTINUOUS_SAMPLES : breaks.length - 1)
+    return { colorMode, breaks, continuous, palette }
+  }, [colorMode, colorStops, breaks, continuous])
+
+  useEffect(() => {
+    onLegendChange?.({ colorMode, continuous, stops: colorStops, breaks })
+  }, [onLegendChange, colorMode, continuous, colorStops, breaks])
+
+  // boxSize / 間距改變：只重寫已顯示區塊的矩陣
+  useEffect(() => {
+    const mesh = meshRef.current
+    if (!mesh) return
+    chunks.states.forEach(state => writeMatrices(mesh, state, columns, layout))
+    markInstances(mesh.instanceMatrix, 0, mesh.count)
+  }, [layout, chunks, columns])
+
+  // 樣式改變：只重寫顏色
+  useEffect(() => {
+    const mesh = meshRef.current
+    if (!mesh) return
+    chunks.states.forEach(state => writeColors(mesh, state, columns, style))
+    markInstances(mesh.instanceColor, 0, mesh.count)
+    markInstances(mesh.geometry.attributes.instanceOpacity, 0, mesh.count)
+  }, [style, chunks, columns])
+
+  // 射線檢測只看目前顯示的方柱；chunks.states 隨時是最新的層級
+  const raycast = useMemo(() => function (raycaster, intersects) {
+    raycastChunks(this, raycaster, intersects, chunks, spheres, columns, layout)
+  }, [chunks, spheres, columns, layout])
+
+  const frustum = useMemo(() => new THREE.Frustum(), [])
+  const projScreen = useMemo(() => new THREE.Matrix4(), [])
+  const sphere = useMemo(() => new THREE.Sphere(), [])
+
+  // 輕微旋轉動畫，並依相機更新各區塊的 LOD
+  useFrame((state) => {
+    const group = groupRef.current
+    if (!group) return
+    group.rotation.y = Math.sin(state.clock.elapsedTime * 0.1) * 0.1
+    group.updateMatrixWorld()
+    const { camera } = state
+    projScreen.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse)
+    frustum.setFromProjectionMatrix(projScreen)
+    const columnWidth = spacing * sampling
+
+    const mesh = meshRef.current
+    if (!mesh) return
+    const levels = spheres.map(bounds => {
+      sphere.copy(bounds).applyMatrix4(group.matrixWorld)
+      if (!frustum.intersectsSphere(sphere)) return HIDDEN
+      const distance = Math.max(camera.position.distanceTo(sphere.center) - sphere.radius, 0)
+      return pickLevel(distance, columnWidth, camera, state.size.height, maxLevel)
+    })
+    if (levels.every((level, i) => level === chunks.states[i].level)) return
+    mesh.count = packChunks(mesh, chunks, levels, columns, layout, style)
+  })
+
+  // 統計選取範圍內的方柱（以最細層級、頂面中心的投影判斷）；資料改變時以目前的視角重新統計
+  useEffect(() => {
+    if (!selection) return
+    const group = groupRef.current
+    const { camera } = get()
+    group.updateMatrixWorld()
+    camera.updateMatrixWorld()
+    const t = {}
+    const point = new THREE.Vector3()
+    let count = 0
+    let min = Infinity
+    let max = -Infinity
+    let sum = 0
+    for (let i = 0; i < columns.count; i++) {
+      columnTransform(columns, i, 0, layout, t)
+      point.set(t.x, t.height, t.z).applyMatrix4(group.matrixWorld).project(camera)
+      // z 超出 -1~1 表示在相機後方或超出遠平面
+      if (Math.abs(point.z) > 1 || !pointInPolygon(point.x, point.y, selection.polygon)) continue
+      const value = columns.values[i]
+      count++
+      sum += value
+      if (value < min) min = value
+      if (value > max) max = value
+    }
+    onSelectionStats?.(count > 0 ? { count, min, max, mean: sum / count } : { count: 0 })
+  }, [selection, columns, layout, get, onSelectionStats])
+
+  // 換了資料後釘選的方柱已不存在，通知上層取消釘選
+  useEffect(() => {
+    if (inspected && inspected.columns !== columns) onInspect?.(null)
+  }, [inspected, columns, onInspect])
+
+  // 實例位置對應的方柱索引與層級
+  const resolveHit = (slot) => {
+    const state = chunks.states[chunkAt(chunks.states, slot)]
+    const index = state?.indices[slot - state.start]
+    return index === undefined ? null : { index, level: state.level }
+  }
+
+  const handlePointerMove = (e) => {
+    e.stopPropagation()
+    const hit = resolveHit(e.instanceId)
+    if (!hit) return
+    if (hovered && hovered.columns === columns && hovered.index === hit.index && hovered.level === hit.level) return
+    setHovered(inspectColumn(columns, hit.index, hit.level, layout, groupRef.current))
+  }
+
+  const handleClick = (e) => {
+    e.stopPropagation()
+    if (e.delta > CLICK_MAX_DRAG) return
+    const hit = resolveHit(e.instanceId)
+    if (hit) onInspect?.(inspectColumn(columns, hit.index, hit.level, layout, groupRef.current))
+  }
+
+  // 換了資料後舊的索引不再有效
+  const hoveredColumn = hovered && hovered.columns === columns ? hovered : null
+  const pinnedColumn = inspected && inspected.columns === columns ? inspected : null
+  const hoveredTransform = hoveredColumn && columnTransform(columns, hoveredColumn.index, hoveredColumn.level, layout, {})
+  const pinnedTransform = pinnedColumn && columnTransform(columns, pinnedColumn.index, pinnedColumn.level, layout, {})
+
+  const isOpacityMode = colorMode === 'opacity'
+
+  return (
+    <group ref={groupRef}>
+      <instancedMesh
+        ref={meshRef}
+        args={[chunks.geometry, null, chunks.capacity]}
+        instanceMatrix={chunks.instanceMatrix}
+        instanceColor={chunks.instanceColor}
+        count={0}
+        frustumCulled={false}
+        raycast={raycast}
+        onPointerMove={handlePointerMove}
+        onPointerOut={() => setHovered(null)}
+        onClick={handleClick}
+      >
+        <meshStandardMaterial
+          color="#ffffff"
+          metalness={0.5}
+          roughness={0.3}
+          transparent={isOpacityMode}
+          emissive="#ffffff"
+          emissiveIntensity={isOpacityMode ? 0.2 : 0.075}
+          depthWrite={!isOpacityMode}
+          onBeforeCompile={patchInstanceShader}
+        />
+      </instancedMesh>
+      {pinnedTransform && <ColumnHighlight transform={pinnedTransform} color="#ff4081" />}
+      {hoveredTransform && (
+        <>
+          <ColumnHighlight transform={hoveredTransform} color="#ffffff" />
+          <Html position={[hoveredTransform.x, hoveredTransform.height, hoveredTransform.z]} style={{ pointerEvents: 'none' }}>
+            <div
+              style={{
+                transform: 'translate(12px, -50%)',
+                padding: '6px 8px',
+                background: 'rgba(0, 0, 0, 0.75)',
+                border: '1px solid #00d9ff',
+                borderRadius: '4px',
+                color: '#fff',
+                fontFamily: 'monospace',
+                fontSize: '12px',
+                whiteSpace: 'nowrap',
+              }}
+            >
+              <div>格子: ({hoveredColumn.gridX}, {hoveredColumn.gridY}){hoveredColumn.level > 0 && `，${2 ** hoveredColumn.level}x${2 ** hoveredColumn.level} 格`}</div>
+              <div>世界座標: ({hoveredColumn.world.map(v => v.toFixed(2)).join(', ')})</div>
+              <div>高度: {hoveredColumn.value.toLocaleString(undefined, { maximumFractionDigits: 3 })}</div>
+            </div>
+          </Html>
+        </>
+      )}
+    </group>
+  )
+}
+
+export default TerrainMap
@@ -0,0 +1,133 @@
+import * as THREE from 'three'
+
+// 地形高度的配色（低 → 高）
+export const HEIGHT_COLORS = [
+  '#0066cc', // 0: 深藍
+  '#0088cc', // 1: 藍
+  '#00aacc', // 2: 青藍
+  '#00cccc', // 3: 青色
+  '#00ccaa', // 4: 青綠
+  '#00ff99', // 5: 綠青
+  '#66ff66', // 6: 淺綠
+  '#99ff66', // 7: 黃綠
+  '#ccff66', // 8: 淺黃綠
+  '#ffffcc', // 9: 淺黃
+]
+
+// 透明度模式：統一水藍色，低處 50%，高處 95% 不透明
+export const OPACITY_MODE_COLOR = '#39C5BB'
+
+export function opacityAt(t) {
+  return 0.5 + t * 0.45
+}
+
+// 平均分布的色標
+function evenStops(colors) {
+  return colors.map((color, i) => [i / (colors.length - 1), color])
+}
+
+// 具名色帶：stops 為 [位置 0~1, 顏色] 依位置排序
+export const COLOR_RAMPS = {
+  classic: { label: '經典', stops: evenStops(HEIGHT_COLORS) },
+  viridis: {
+    label: 'Viridis',
+    stops: evenStops(['#440154', '#482878', '#3e4989', '#31688e', '#26828e', '#1f9e89', '#35b779', '#6ece58', '#b5de2b', '#fde725']),
+  },
+  terrain: {
+    label: '地形',
+    stops: [[0, '#333399'], [0.15, '#0099ff'], [0.25, '#00cc66'], [0.5, '#ffff99'], [0.75, '#805c54'], [1, '#ffffff']],
+  },
+  magma: {
+    label: 'Magma',
+    stops: evenStops(['#000004', '#180f3d', '#440f76', '#721f81', '#9e2f7f', '#cd4071', '#f1605d', '#fd9668', '#feca8d', '#fcfdbf']),
+  },
+  grayscale: { label: '灰階', stops: [[0, '#000000'], [1, '#ffffff']] },
+}
+
+// 解析自訂色標：以逗號或換行分隔的顏色（平均分布），或「位置:顏色」（位置 0~1）
+// 顏色為 #rgb / #rrggbb；少於兩個有效色標時回傳 null
+export function parseColorStops(text) {
+  const items = (text || '').split(/[,\n]/).map(item => item.trim()).filter(Boolean)
+  const stops = []
+  for (const [i, item] of items.entries()) {
+    const match = /^(?:([\d.]+)\s*:\s*)?(#(?:[0-9a-f]{3}|[0-9a-f]{6}))$/i.exec(item)
+    if (!match) return null
+    const position = match[1] === undefined ? i / Math.max(items.length - 1, 1) : Number(match[1])
+    if (!(position >= 0 && position <= 1)) return null
+    stops.push([position, match[2]])
+  }
+  if (stops.length < 2) return null
+  return stops.sort((a, b) => a[0] - b[0])
+}
+
+// 色帶在 t（0~1）處的顏色，相鄰色標之間線性內插
+export function rampColor(stops, t, target = new THREE.Color()) {
+  const x = Math.min(Math.max(t, 0), 1)
+  let k = 0
+  while (k < stops.length - 2 && x > stops[k + 1][0]) k++
+  const [t0, c0] = stops[k]
+  const [t1, c1] = stops[k + 1]
+  const f = t1 > t0 ? Math.min(Math.max((x - t0) / (t1 - t0), 0), 1) : 0
+  return target.set(c0).lerp(new THREE.Color(c1), f)
+}
+
+// 第 index 個區間（共 count 個）的顏色；只有一個區間時取色帶中央
+export function getColorByHeightGroup(groupIndex, groupCount = HEIGHT_COLORS.length, stops = COLOR_RAMPS.classic.stops) {
+  const t = groupCount > 1 ? groupIndex / (groupCount - 1) : 0.5
+  return `#${rampColor(stops, t).getHexString()}`
+}
+
+// 分級邊界 [b0, b1, ..., bn]：b0 為最小值、bn 為最大值，共 n 個區間
+// method: 'equal' 等距、'quantile' 每區間數量相同、'custom' 使用 customBreaks 中落在範圍內的值
+export function computeBreaks(values, count, method = 'equal', customBreaks = []) {
+  let min = Infinity
+  let max = -Infinity
+  for (const v of values) {
+    if (Number.isNaN(v)) continue
+    if (v < min) min = v
+    if (v > max) max = v
+  }
+  if (!Number.isFinite(min)) return [0, 0]
+  if (min === max) return [min, max]
+
+  if (method === 'custom') {
+    const inner = [...new Set(customBreaks)].filter(v => v > min && v < max).sort((a, b) => a - b)
+    return [min, ...inner, max]
+  }
+  const n = Math.max(1, Math.floor(count))
+  if (method === 'quantile') {
+    const sorted = Float32Array.from(values).filter(v => !Number.isNaN(v)).sort()
+    const breaks = [min]
+    for (let k = 1; k < n; k++) breaks.push(sorted[Math.floor((k / n) * (sorted.length - 1))])
+    breaks.push(max)
+    return breaks
+  }
+  return Array.from({ length: n + 1 }, (_, k) => (k === n ? max : min + ((max - min) * k) / n))
+}
+
+// 值所在的區間索引（0 ~ breaks.length - 2）
+export function classifyValue(value, breaks) {
+  let lo = 0
+  let hi = breaks.length - 2
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1
+    if (value >= breaks[mid]) lo = mid
+    else hi = mid - 1
+  }
+  return lo
+}
+
+// 值在色帶上的位置（0~1）：區間化時取區間序號的比例，連續時在所在區間內再線性內插
+export function valuePosition(value, breaks, continuous) {
+  const bands = breaks.length - 1
+  const k = classifyValue(value, breaks)
+  if (!continuous) return bands > 1 ? k / (bands - 1) : 0.5
+  const span = breaks[k + 1] - breaks[k]
+  const f = span > 0 ? Math.min(Math.max((value - breaks[k]) / span, 0), 1) : 0
+  return (k + f) / bands
+}
+
+// 解析自訂分級邊界（逗號或空白分隔的數字）
+export function parseBreaks(text) {
+  return (text || '').split(/[\s,;]+/).filter(Boolean).map(Number).filter(Number.isFinite)
+}
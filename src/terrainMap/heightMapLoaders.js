@@ -0,0 +1,253 @@
+// 高度圖載入：灰階圖片、ESRI ASCII grid（.asc）與 x,y,height 的 CSV
+// 三種來源都轉成同樣的高度格 { name, width, height, cellSize, values }
+// values 為以列為主（第 0 列在北／上方）的 Float32Array，單位為資料原本的單位，NaN 表示無資料
+
+// 圖片沒有單位：高度值即灰階 0~255，格子間距取成讓最亮處約為長邊的 1/6（與模擬地形 60 格、高 10 的比例相同）
+const IMAGE_RELIEF = 1 / 6
+// 經緯度座標的格距是度，不能直接與公尺的高度相比；這類資料同樣以最大高差約為長邊的 1/6 決定格距
+const GEOGRAPHIC_RELIEF = IMAGE_RELIEF
+// 座標都在經緯度範圍內且格距小於此值（度）時視為經緯度網格
+const GEOGRAPHIC_MAX_STEP = 0.1
+// 圖片長邊超過此大小時先縮小，避免產生過多方柱
+const DEFAULT_MAX_IMAGE_SIZE = 1024
+// alpha 低於此值的像素視為無資料
+const IMAGE_ALPHA_CUTOFF = 128
+
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'webp', 'gif', 'bmp']
+
+function fileExtension(name) {
+  const match = /\.([^./\\]+)$/.exec(name || '')
+  return match ? match[1].toLowerCase() : ''
+}
+
+function isNodata(value, nodataValue) {
+  return !Number.isFinite(value) || (nodataValue !== undefined && nodataValue !== null && value === nodataValue)
+}
+
+// 灰階（或彩色，以 Rec.601 亮度計算）圖片轉成高度格；canvas 只有 8 bit，16 bit PNG 會失去精度
+export async function loadHeightMapImage(file, options = {}) {
+  const { maxSize = DEFAULT_MAX_IMAGE_SIZE, nodataValue } = options
+  const bitmap = await createImageBitmap(file)
+  const scale = Math.min(1, maxSize / Math.max(bitmap.width, bitmap.height))
+  const width = Math.max(1, Math.round(bitmap.width * scale))
+  const height = Math.max(1, Math.round(bitmap.height * scale))
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })
+  ctx.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+  const { data } = ctx.getImageData(0, 0, width, height)
+
+  const values = new Float32Array(width * height)
+  for (let i = 0; i < values.length; i++) {
+    const p = i * 4
+    const gray = Math.round(0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2])
+    values[i] = data[p + 3] < IMAGE_ALPHA_CUTOFF || isNodata(gray, nodataValue)
+      ? NaN
+      : gray
+  }
+  const cellSize = 255 / (Math.max(width, height) * IMAGE_RELIEF)
+  return { name: file.name || 'image', width, height, cellSize, values }
+}
+
+// 解析 ESRI ASCII grid：ncols / nrows / xllcorner / yllcorner / cellsize / NODATA_value 標頭之後為由北到南的高度
+export function parseAsciiGrid(text, options = {}) {
+  const tokens = text.trim().split(/\s+/)
+  const header = {}
+  let i = 0
+  while (i < tokens.length - 1 && /^[a-z_]+$/i.test(tokens[i])) {
+    header[tokens[i].toLowerCase()] = Number(tokens[i + 1])
+    i += 2
+  }
+  const width = header.ncols
+  const height = header.nrows
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+    throw new Error('ASCII grid 缺少 ncols / nrows 標頭')
+  }
+  let cellSize = header.cellsize ?? header.dx ?? 1
+  const nodataValue = options.nodataValue ?? header.nodata_value
+  const count = width * height
+  if (tokens.length - i < count) {
+    throw new Error(`ASCII grid 資料不足：需要 ${count} 個值，只有 ${tokens.length - i} 個`)
+  }
+  const values = new Float32Array(count)
+  for (let k = 0; k < count; k++) {
+    const value = Number(tokens[i + k])
+    values[k] = isNodata(value, nodataValue) ? NaN : value
+  }
+  // 角落座標為經緯度時格距是度，改以高差決定
+  const minX = header.xllcorner ?? header.xllcenter ?? 0
+  const minY = header.yllcorner ?? header.yllcenter ?? 0
+  if (looksGeographic(minX, minX + width * cellSize, minY, minY + height * cellSize, cellSize)) {
+    cellSize = reliefCellSize(values, width, height)
+  }
+  return { name: options.name || 'grid.asc', width, height, cellSize: cellSize > 0 ? cellSize : 1, values }
+}
+
+// 看起來像經緯度的網格：x 在 ±180、y 在 ±90 內，且格距很小
+function looksGeographic(minX, maxX, minY, maxY, step) {
+  return minX >= -180 && maxX <= 180 && minY >= -90 && maxY <= 90 && step < GEOGRAPHIC_MAX_STEP
+}
+
+// 經緯度網格的格距：讓最大高差約為長邊的 GEOGRAPHIC_RELIEF（與圖片相同的作法）
+function reliefCellSize(values, width, height) {
+  let min = Infinity
+  let max = -Infinity
+  for (const v of values) {
+    if (Number.isNaN(v)) continue
+    if (v < min) min = v
+    if (v > max) max = v
+  }
+  const range = max - min
+  return range > 0 ? range / (Math.max(width, height) * GEOGRAPHIC_RELIEF) : 1
+}
+
+// 規則網格的間距：排序後相鄰值的最小正差
+function gridStep(sorted) {
+  let step = Infinity
+  for (let i = 1; i < sorted.length; i++) {
+    const d = sorted[i] - sorted[i - 1]
+    if (d > 1e-9 && d < step) step = d
+  }
+  return Number.isFinite(step) ? step : 1
+}
+
+// 解析 x,y,height 的 CSV（逗號、分號、tab 或空白分隔；可有標頭列）
+// 點依 x / y 的間距放進規則網格，沒有點的格子為無資料；y 越大越北（第 0 列）
+export function parseHeightCsv(text, options = {}) {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() && !line.trim().startsWith('#'))
+  if (lines.length === 0) throw new Error('CSV 沒有資料')
+  const delimiter = [',', ';', '\t'].find(d => lines[0].includes(d)) || /\s+/
+  const split = line => line.trim().split(delimiter).map(cell => cell.trim())
+
+  // 第一列有非數字欄位時當成標頭，依欄名找 x / y / 高度欄
+  let columns = [0, 1, 2]
+  let start = 0
+  let namedGeographic = false
+  const first = split(lines[0])
+  if (first.some(cell => cell !== '' && Number.isNaN(Number(cell)))) {
+    const names = first.map(cell => cell.toLowerCase().replace(/^["']|["']$/g, ''))
+    const find = (candidates, fallback) => {
+      const index = names.findIndex(name => candidates.includes(name))
+      return index >= 0 ? index : fallback
+    }
+    columns = [
+      find(['x', 'lon', 'lng', 'longitude', 'easting', 'col'], 0),
+      find(['y', 'lat', 'latitude', 'northing', 'row'], 1),
+      find(['height', 'z', 'elevation', 'elev', 'h', 'value', 'alt', 'altitude'], 2),
+    ]
+    start = 1
+    namedGeographic = ['lon', 'lng', 'longitude'].includes(names[columns[0]]) || ['lat', 'latitude'].includes(names[columns[1]])
+  }
+
+  const xs = []
+  const ys = []
+  const hs = []
+  for (let i = start; i < lines.length; i++) {
+    const cells = split(lines[i])
+    const x = Number(cells[columns[0]])
+    const y = Number(cells[columns[1]])
+    if (!Number.isFinite(x) || !Number.isFinite(y)) continue
+    // 空白或非數字的高度視為無資料
+    const raw = cells[columns[2]]
+    const value = raw === undefined || raw === '' ? NaN : Number(raw)
+    xs.push(x)
+    ys.push(y)
+    hs.push(isNodata(value, options.nodataValue) ? NaN : value)
+  }
+  if (xs.length === 0) throw new Error('CSV 找不到有效的 x,y,height 資料列')
+
+  const uniqueX = [...new Set(xs)].sort((a, b) => a - b)
+  const uniqueY = [...new Set(ys)].sort((a, b) => a - b)
+  const stepX = gridStep(uniqueX)
+  const stepY = gridStep(uniqueY)
+  const minX = uniqueX[0]
+  const maxY = uniqueY[uniqueY.length - 1]
+  const width = Math.round((uniqueX[uniqueX.length - 1] - minX) / stepX) + 1
+  const height = Math.round((maxY - uniqueY[0]) / stepY) + 1
+  if (width * height > 16_000_000) throw new Error(`CSV 網格過大（${width} x ${height}），請確認座標間距`)
+
+  const values = new Float32Array(width * height).fill(NaN)
+  for (let i = 0; i < xs.length; i++) {
+    const col = Math.round((xs[i] - minX) / stepX)
+    const row = Math.round((maxY - ys[i]) / stepY)
+    values[row * width + col] = hs[i]
+  }
+  // 經緯度的格距是度，改以高差決定
+  const geographic = namedGeographic || looksGeographic(minX, uniqueX[uniqueX.length - 1], uniqueY[0], maxY, stepX)
+  const cellSize = geographic ? reliefCellSize(values, width, height) : stepX
+  return { name: options.name || 'heights.csv', width, height, cellSize, values }
+}
+
+// 依副檔名（或 MIME）選擇載入方式
+export async function loadHeightGrid(file, options = {}) {
+  const ext = fileExtension(file.name)
+  if (IMAGE_EXTENSIONS.includes(ext) || (file.type || '').startsWith('image/')) {
+    return loadHeightMapImage(file, options)
+  }
+  const text = await file.text()
+  if (ext === 'asc' || /^\s*ncols\b/i.test(text)) {
+    return parseAsciiGrid(text, { ...options, name: file.name })
+  }
+  if (ext === 'csv' || ext === 'txt') {
+    return parseHeightCsv(text, { ...options, name: file.name })
+  }
+  throw new Error(`不支援的檔案格式：${file.name}`)
+}
+
+// 高度格的最小、最大值（略過無資料）
+export function gridRange(grid) {
+  let min = Infinity
+  let max = -Infinity
+  for (const v of grid.values) {
+    if (Number.isNaN(v)) continue
+    if (v < min) min = v
+    if (v > max) max = v
+  }
+  return Number.isFinite(min) ? { min, max } : { min: 0, max: 0 }
+}
+
+// 建立可容納 capacity 根方柱的資料：格子座標 xs / ys、高度 heights（以格子間距為單位）與原始值 values
+export function createColumns(capacity) {
+  return {
+    count: 0,
+    xs: new Int32Array(capacity),
+    ys: new Int32Array(capacity),
+    heights: new Float32Array(capacity),
+    values: new Float32Array(capacity),
+  }
+}
+
+// 高度格轉成 TerrainMap 使用的方柱資料（見 createColumns）
+// height 以格子間距為單位（exaggeration = 1 時為真實比例），value 為原始單位的高度
+// nodata: 'skip' 不產生方柱，'base' 以最低高度補上
+export function heightGridToColumns(grid, options = {}) {
+  const { exaggeration = 1, sampling = 1, isCircular = false, nodata = 'skip' } = options
+  const { width, height, cellSize, values } = grid
+  const { min } = gridRange(grid)
+  const centerX = width / 2
+  const centerY = height / 2
+  const radius = Math.min(width, height) / 2
+  const columns = createColumns(Math.ceil(width / sampling) * Math.ceil(height / sampling))
+  for (let y = 0; y < height; y += sampling) {
+    for (let x = 0; x < width; x += sampling) {
+      if (isCircular) {
+        const dx = x - centerX
+        const dy = y - centerY
+        if (Math.sqrt(dx * dx + dy * dy) > radius) continue
+      }
+      let value = values[y * width + x]
+      if (Number.isNaN(value)) {
+        if (nodata === 'skip') continue
+        value = min
+      }
+      const i = columns.count++
+      columns.xs[i] = x
+      columns.ys[i] = y
+      columns.heights[i] = ((value - min) / cellSize) * exaggeration
+      columns.values[i] = value
+    }
+  }
+  return columns
+}
@@ -0,0 +1,46 @@
+// 讀取點雲檔；大檔案交給 Worker 解析並回報進度
+import { parsePointCloud } from './pointCloudParsers'
+
+// 超過此大小的檔案在 Worker 中解析
+const WORKER_THRESHOLD = 8 * 1024 * 1024
+
+// onProgress(0~1)；signal 中斷時結束 Worker 並以 AbortError 拒絕
+export async function loadPointCloud(file, { onProgress, signal } = {}) {
+  const buffer = await file.arrayBuffer()
+  signal?.throwIfAborted()
+  if (buffer.byteLength < WORKER_THRESHOLD || typeof Worker === 'undefined') {
+    const cloud = parsePointCloud(buffer, file.name, onProgress)
+    onProgress?.(1)
+    return cloud
+  }
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./pointCloudWorker.js', import.meta.url), { type: 'module' })
+    const onAbort = () => {
+      worker.terminate()
+      reject(signal.reason)
+    }
+    const finish = () => {
+      worker.terminate()
+      signal?.removeEventListener('abort', onAbort)
+    }
+    worker.onmessage = (e) => {
+      const msg = e.data
+      if (msg.type === 'progress') {
+        onProgress?.(msg.progress)
+      } else if (msg.type === 'result') {
+        finish()
+        onProgress?.(1)
+        resolve(msg.cloud)
+      } else {
+        finish()
+        reject(new Error(msg.message))
+      }
+    }
+    worker.onerror = (e) => {
+      finish()
+      reject(new Error(e.message || `${file.name}：點雲解析失敗`))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+    worker.postMessage({ buffer, name: file.name }, [buffer])
+  })
+}
@@ -0,0 +1,320 @@
+// 點雲解析：ASCII / binary PLY、XYZ / XYZRGB 文字檔與未壓縮的 LAS 1.2~1.4
+// 不依賴 DOM，可在主執行緒或 Worker 中使用
+// 結果為 { name, count, positions, colors, bounds, origin }
+// - positions: Float32Array（x, y, z，z 朝上），已減去 origin 讓數值靠近 0，避免大座標（例如 UTM）失去 float 精度
+// - colors: 每點 RGB 0~255 的 Uint8Array，檔案沒有顏色時為 null
+// - bounds: 相對於 origin 的 { min: [x, y, z], max: [x, y, z] }
+
+// 每處理這麼多點回報一次進度
+const PROGRESS_STEP = 50000
+
+// 可增長的點雲緩衝區；第一個點作為暫時的原點，結束時再改以外框中心為原點
+class PointCloudBuilder {
+  constructor(capacity = 1024, hasColor = false) {
+    this.positions = new Float32Array(Math.max(1, capacity) * 3)
+    this.colors = hasColor ? new Uint8Array(Math.max(1, capacity) * 3) : null
+    this.count = 0
+    this.base = null
+    this.min = [Infinity, Infinity, Infinity]
+    this.max = [-Infinity, -Infinity, -Infinity]
+  }
+
+  grow() {
+    const positions = new Float32Array(this.positions.length * 2)
+    positions.set(this.positions)
+    this.positions = positions
+    if (this.colors) {
+      const colors = new Uint8Array(this.colors.length * 2)
+      colors.set(this.colors)
+      this.colors = colors
+    }
+  }
+
+  add(x, y, z, r = 255, g = 255, b = 255) {
+    if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(z)) return
+    if (this.count * 3 >= this.positions.length) this.grow()
+    this.base ??= [x, y, z]
+    const o = this.count * 3
+    this.positions[o] = x - this.base[0]
+    this.positions[o + 1] = y - this.base[1]
+    this.positions[o + 2] = z - this.base[2]
+    for (let i = 0; i < 3; i++) {
+      const v = this.positions[o + i]
+      if (v < this.min[i]) this.min[i] = v
+      if (v > this.max[i]) this.max[i] = v
+    }
+    if (this.colors) {
+      this.colors[o] = Math.min(255, Math.max(0, Math.round(r)))
+      this.colors[o + 1] = Math.min(255, Math.max(0, Math.round(g)))
+      this.colors[o + 2] = Math.min(255, Math.max(0, Math.round(b)))
+    }
+    this.count++
+  }
+
+  finish(name) {
+    if (this.count === 0) throw new Error(`${name}：沒有任何點`)
+    const center = [0, 1, 2].map(i => (this.min[i] + this.max[i]) / 2)
+    const positions = this.positions.slice(0, this.count * 3)
+    for (let i = 0; i < positions.length; i++) positions[i] -= center[i % 3]
+    return {
+      name,
+      count: this.count,
+      positions,
+      colors: this.colors ? this.colors.slice(0, this.count * 3) : null,
+      bounds: {
+        min: this.min.map((v, i) => v - center[i]),
+        max: this.max.map((v, i) => v - center[i]),
+      },
+      origin: this.base.map((v, i) => v + center[i]),
+    }
+  }
+}
+
+// ---- PLY ----
+
+const PLY_TYPES = {
+  char: ['getInt8', 1], int8: ['getInt8', 1],
+  uchar: ['getUint8', 1], uint8: ['getUint8', 1],
+  short: ['getInt16', 2], int16: ['getInt16', 2],
+  ushort: ['getUint16', 2], uint16: ['getUint16', 2],
+  int: ['getInt32', 4], int32: ['getInt32', 4],
+  uint: ['getUint32', 4], uint32: ['getUint32', 4],
+  float: ['getFloat32', 4], float32: ['getFloat32', 4],
+  double: ['getFloat64', 8], float64: ['getFloat64', 8],
+}
+
+const PLY_COLOR_NAMES = [
+  ['red', 'r', 'diffuse_red'],
+  ['green', 'g', 'diffuse_green'],
+  ['blue', 'b', 'diffuse_blue'],
+]
+
+function plyType(name) {
+  const type = PLY_TYPES[name]
+  if (!type) throw new Error(`PLY：不支援的屬性型別 ${name}`)
+  return type
+}
+
+// 解析 PLY 標頭，回傳格式、元素列表與資料起點
+function parsePlyHeader(bytes) {
+  // 標頭為 ASCII，最多讀前 64KB 尋找 end_header
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, Math.min(bytes.length, 65536)))
+  const match = /end_header\r?\n/.exec(head)
+  if (!head.startsWith('ply') || !match) throw new Error('PLY：找不到有效的標頭')
+  const elements = []
+  let format = ''
+  for (const line of head.slice(0, match.index).split(/\r?\n/)) {
+    const parts = line.trim().split(/\s+/)
+    if (parts[0] === 'format') format = parts[1]
+    else if (parts[0] === 'element') elements.push({ name: parts[1], count: Number(parts[2]), properties: [] })
+    else if (parts[0] === 'property' && elements.length) {
+      const element = elements[elements.length - 1]
+      if (parts[1] === 'list') element.properties.push({ name: parts[4], list: true, countType: parts[2], type: parts[3] })
+      else element.properties.push({ name: parts[2], list: false, type: parts[1] })
+    }
+  }
+  if (!['ascii', 'binary_little_endian', 'binary_big_endian'].includes(format)) {
+    throw new Error(`PLY：不支援的格式 ${format}`)
+  }
+  return { format, elements, dataStart: match.index + match[0].length }
+}
+
+// 顏色屬性依型別換算成 0~255
+function colorScale(type) {
+  if (type === 'float' || type === 'float32' || type === 'double' || type === 'float64') return 255
+  if (type === 'ushort' || type === 'uint16') return 1 / 257
+  return 1
+}
+
+export function parsePly(buffer, name = 'cloud.ply', onProgress) {
+  const bytes = new Uint8Array(buffer)
+  const { format, elements, dataStart } = parsePlyHeader(bytes)
+  const vertexIndex = elements.findIndex(e => e.name === 'vertex')
+  if (vertexIndex < 0) throw new Error('PLY：沒有 vertex 元素')
+  const vertex = elements[vertexIndex]
+  const index = propName => vertex.properties.findIndex(p => p.name === propName)
+  const xyz = ['x', 'y', 'z'].map(index)
+  if (xyz.some(i => i < 0)) throw new Error('PLY：vertex 缺少 x / y / z')
+  const rgb = PLY_COLOR_NAMES.map(names => names.map(index).find(i => i >= 0) ?? -1)
+  const hasColor = rgb.every(i => i >= 0)
+  const scales = hasColor ? rgb.map(i => colorScale(vertex.properties[i].type)) : [1, 1, 1]
+  const builder = new PointCloudBuilder(vertex.count, hasColor)
+  const values = new Float64Array(vertex.properties.length)
+  const emit = () => {
+    const c = hasColor ? rgb.map((i, k) => values[i] * scales[k]) : []
+    builder.add(values[xyz[0]], values[xyz[1]], values[xyz[2]], ...c)
+  }
+
+  if (format === 'ascii') {
+    const lines = new TextDecoder().decode(bytes.subarray(dataStart)).split(/\r?\n/)
+    let line = 0
+    for (let e = 0; e <= vertexIndex; e++) {
+      // vertex 之前的元素每個項目佔一行，直接略過
+      if (e < vertexIndex) {
+        line += elements[e].count
+        continue
+      }
+      for (let n = 0; n < vertex.count && line < lines.length; n++, line++) {
+        const tokens = lines[line].trim().split(/\s+/)
+        // list 屬性佔用「數量 + 項目」個欄位
+        let t = 0
+        vertex.properties.forEach((p, i) => {
+          if (p.list) {
+            t += Number(tokens[t]) + 1
+            values[i] = NaN
+          } else {
+            values[i] = Number(tokens[t++])
+          }
+        })
+        emit()
+        if (onProgress && n % PROGRESS_STEP === 0) onProgress(n / vertex.count)
+      }
+    }
+    return builder.finish(name)
+  }
+
+  const view = new DataView(buffer)
+  const little = format === 'binary_little_endian'
+  let p = dataStart
+  const read = type => {
+    const [getter, size] = plyType(type)
+    const value = view[getter](p, little)
+    p += size
+    return value
+  }
+  for (let e = 0; e <= vertexIndex; e++) {
+    const element = elements[e]
+    for (let n = 0; n < element.count; n++) {
+      if (p >= buffer.byteLength) throw new Error('PLY：資料比標頭宣告的少')
+      element.properties.forEach((prop, i) => {
+        if (prop.list) {
+          const count = read(prop.countType)
+          p += count * plyType(prop.type)[1]
+          values[i] = NaN
+        } else {
+          values[i] = read(prop.type)
+        }
+      })
+      if (e === vertexIndex) {
+        emit()
+        if (onProgress && n % PROGRESS_STEP === 0) onProgress(n / element.count)
+      }
+    }
+  }
+  return builder.finish(name)
+}
+
+// ---- XYZ ----
+
+// 每行 x y z [r g b]，以空白、逗號、分號或 tab 分隔；無法解析的行（標頭、註解）略過
+// 7 欄的行為 PTS 的 x y z intensity r g b，顏色取第 5~7 欄
+// 第一個帶顏色的行若顏色有小數點，整個檔案的顏色視為 0~1 的浮點數，否則為 0~255
+export function parseXyz(buffer, name = 'cloud.xyz', onProgress) {
+  const bytes = new Uint8Array(buffer)
+  const decoder = new TextDecoder()
+  const builder = new PointCloudBuilder(Math.max(1024, Math.floor(bytes.length / 32)), true)
+  let sawColor = false
+  let colorScale = 1
+  let rest = ''
+  const chunkSize = 1 << 22
+  const parseLine = line => {
+    const tokens = line.trim().split(/[\s,;]+/)
+    if (tokens.length < 3) return
+    const x = Number(tokens[0])
+    const y = Number(tokens[1])
+    const z = Number(tokens[2])
+    if (tokens.length >= 6) {
+      const c = tokens.length === 7 ? 4 : 3
+      const r = Number(tokens[c])
+      const g = Number(tokens[c + 1])
+      const b = Number(tokens[c + 2])
+      if (Number.isFinite(r) && Number.isFinite(g) && Number.isFinite(b)) {
+        if (!sawColor) colorScale = tokens.slice(c, c + 3).some(t => t.includes('.')) ? 255 : 1
+        sawColor = true
+        builder.add(x, y, z, r * colorScale, g * colorScale, b * colorScale)
+        return
+      }
+    }
+    builder.add(x, y, z)
+  }
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    const text = rest + decoder.decode(bytes.subarray(offset, offset + chunkSize), { stream: offset + chunkSize < bytes.length })
+    const lines = text.split(/\r?\n/)
+    rest = lines.pop()
+    lines.forEach(parseLine)
+    onProgress?.(Math.min(1, (offset + chunkSize) / bytes.length))
+  }
+  if (rest) parseLine(rest)
+  if (!sawColor) builder.colors = null
+  return builder.finish(name)
+}
+
+// ---- LAS ----
+
+// 各點格式中 RGB 的位置（沒有 RGB 的格式不列出）
+const LAS_RGB_OFFSET = { 2: 20, 3: 28, 5: 28, 7: 30, 8: 30, 10: 30 }
+
+export function parseLas(buffer, name = 'cloud.las', onProgress) {
+  const view = new DataView(buffer)
+  const signature = String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3))
+  if (signature !== 'LASF') throw new Error('LAS：檔頭不是 LASF')
+  const major = view.getUint8(24)
+  const minor = view.getUint8(25)
+  if (major !== 1 || minor < 2 || minor > 4) throw new Error(`LAS：不支援的版本 ${major}.${minor}（支援 1.2~1.4）`)
+  const offsetToPoints = view.getUint32(96, true)
+  const rawFormat = view.getUint8(104)
+  // LAZ 以最高兩個位元標記壓縮
+  if (rawFormat & 0xc0) throw new Error('LAS：不支援壓縮的 LAZ 檔，請先解壓縮')
+  const pointFormat = rawFormat & 0x3f
+  if (pointFormat > 10) throw new Error(`LAS：不支援的點格式 ${pointFormat}`)
+  const recordLength = view.getUint16(105, true)
+  let count = view.getUint32(107, true)
+  if (minor === 4 && count === 0) count = Number(view.getBigUint64(247, true))
+  count = Math.min(count, Math.floor((buffer.byteLength - offsetToPoints) / recordLength))
+  const scale = [131, 139, 147].map(o => view.getFloat64(o, true))
+  const offset = [155, 163, 171].map(o => view.getFloat64(o, true))
+  const rgbOffset = LAS_RGB_OFFSET[pointFormat]
+  const hasColor = rgbOffset !== undefined
+
+  // RGB 規格上是 16 bit，但不少檔案只存 0~255；先找最大值決定是否要右移 8 位
+  let shift = 0
+  if (hasColor) {
+    for (let i = 0; i < count; i++) {
+      const o = offsetToPoints + i * recordLength + rgbOffset
+      if (view.getUint16(o, true) > 255 || view.getUint16(o + 2, true) > 255 || view.getUint16(o + 4, true) > 255) {
+        shift = 8
+        break
+      }
+    }
+  }
+
+  const builder = new PointCloudBuilder(count, hasColor)
+  for (let i = 0; i < count; i++) {
+    const o = offsetToPoints + i * recordLength
+    const x = view.getInt32(o, true) * scale[0] + offset[0]
+    const y = view.getInt32(o + 4, true) * scale[1] + offset[1]
+    const z = view.getInt32(o + 8, true) * scale[2] + offset[2]
+    if (hasColor) {
+      const c = o + rgbOffset
+      builder.add(x, y, z, view.getUint16(c, true) >> shift, view.getUint16(c + 2, true) >> shift, view.getUint16(c + 4, true) >> shift)
+    } else {
+      builder.add(x, y, z)
+    }
+    if (onProgress && i % PROGRESS_STEP === 0) onProgress(i / count)
+  }
+  return builder.finish(name)
+}
+
+// ---- 依格式分派 ----
+
+export const POINT_CLOUD_EXTENSIONS = ['ply', 'xyz', 'xyzrgb', 'pts', 'txt', 'las']
+
+// 依檔頭（PLY / LAS）或副檔名判斷格式；其餘一律當成 XYZ 文字
+export function parsePointCloud(buffer, name, onProgress) {
+  const head = new Uint8Array(buffer, 0, Math.min(4, buffer.byteLength))
+  const magic = String.fromCharCode(...head)
+  if (magic === 'LASF') return parseLas(buffer, name, onProgress)
+  if (magic.startsWith('ply')) return parsePly(buffer, name, onProgress)
+  if (/\.la[sz]$/i.test(name)) throw new Error(`${name}：不是有效的 LAS 檔`)
+  return parseXyz(buffer, name, onProgress)
+}
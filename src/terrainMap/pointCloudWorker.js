@@ -0,0 +1,14 @@
+// 在 Worker 中解析點雲，大檔案不會卡住畫面；結果的 buffer 直接轉移回主執行緒
+import { parsePointCloud } from './pointCloudParsers'
+
+self.onmessage = (e) => {
+  const { buffer, name } = e.data
+  try {
+    const cloud = parsePointCloud(buffer, name, progress => self.postMessage({ type: 'progress', progress }))
+    const transfer = [cloud.positions.buffer]
+    if (cloud.colors) transfer.push(cloud.colors.buffer)
+    self.postMessage({ type: 'result', cloud }, { transfer })
+  } catch (err) {
+    self.postMessage({ type: 'error', message: err instanceof Error ? err.message : String(err) })
+  }
+}